@@ -1,51 +1,406 @@
 #!/usr/bin/env node
 import * as cdk from "aws-cdk-lib";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as apigw from "aws-cdk-lib/aws-apigateway";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as route53 from "aws-cdk-lib/aws-route53";
+import * as appscaling from "aws-cdk-lib/aws-applicationautoscaling";
 import { NetworkStack } from "../lib/network-stack";
+import { ComputeStack } from "../lib/compute-stack";
 import { DogecoinStack } from "../lib/dogecoin-stack";
 import { DatabaseStack } from "../lib/database-stack";
+import { DatabaseReplicaStack } from "../lib/database-replica-stack";
 import { EngineStack } from "../lib/engine-stack";
+import { MonitoringStack } from "../lib/monitoring-stack";
+import { BackupStack } from "../lib/backup-stack";
+import { loadDeploymentConfig } from "../lib/deployment-config";
+import { ProductionGuardrails } from "../lib/production-guardrails";
 
 const app = new cdk.App();
+
+// Stage profile from config/stages.json, selected with `-c stage=<name>`
+const config = loadDeploymentConfig(app);
+
 const env = {
-  account: process.env.CDK_DEFAULT_ACCOUNT,
-  region: process.env.CDK_DEFAULT_REGION,
+  account: config.account ?? process.env.CDK_DEFAULT_ACCOUNT,
+  region: config.region ?? process.env.CDK_DEFAULT_REGION,
 };
 
-const environment_overrides = {
-  CHAIN: "testnet",
+// Production stages keep the database (as a final snapshot) and logs when a
+// stack is deleted
+const logRemovalPolicy = config.production
+  ? cdk.RemovalPolicy.RETAIN
+  : undefined;
+
+const blueGreen = config.engine.blueGreen;
+
+// An internal Engine ALB accepts the VPC and the configured client networks
+const exposure = config.engine.exposure ?? "public";
+const albIngressCidrs =
+  exposure === "public" ? undefined : (config.engine.clientCidrs ?? []);
+const endpointService = config.engine.endpointService && {
+  allowedPrincipals: config.engine.endpointService.allowedPrincipals.map(
+    (arn) => new iam.ArnPrincipal(arn),
+  ),
+  acceptanceRequired: config.engine.endpointService.acceptanceRequired,
 };
+const apiGatewayConfig = config.engine.apiGateway;
+const apiGateway = apiGatewayConfig && {
+  stageName: apiGatewayConfig.stageName,
+  clients: apiGatewayConfig.clients.map((client) => ({
+    ...client,
+    quota: client.quota && {
+      limit: client.quota.limit,
+      period: apigw.Period[client.quota.period],
+    },
+  })),
+  authorizer: apiGatewayConfig.authorizer && {
+    lambdaFunctionArn: apiGatewayConfig.authorizer.lambdaFunctionArn,
+    cognitoUserPoolArns: apiGatewayConfig.authorizer.cognitoUserPoolArns,
+    resultsCacheTtl:
+      apiGatewayConfig.authorizer.cacheTtlSeconds !== undefined
+        ? cdk.Duration.seconds(apiGatewayConfig.authorizer.cacheTtlSeconds)
+        : undefined,
+  },
+};
+
+// Looking up an existing VPC needs a concrete environment
+if (
+  (config.network.existingVpc || config.disasterRecovery?.existingVpc) &&
+  (!env.account || !env.region)
+) {
+  throw new Error(
+    "existingVpc needs the account and region, from the stage or CDK_DEFAULT_ACCOUNT and CDK_DEFAULT_REGION",
+  );
+}
+
+const network = new NetworkStack(app, "NetworkStack", {
+  cidr: config.network.cidr,
+  natGateways: config.network.natGateways,
+  existingVpc: config.network.existingVpc,
+  chain: config.chain,
+  enginePort: config.engine.runtime?.rpcPort,
+  enableHttps: config.engine.https !== undefined,
+  albIngressCidrs,
+  engineTestListener: blueGreen?.testListenerCidrs && {
+    port: blueGreen.testListenerPort ?? 9000,
+    allowedCidrs: blueGreen.testListenerCidrs,
+  },
+  enableRdsProxy: config.database.proxy,
+  enableDbRotation: config.database.rotation !== undefined,
+  env,
+});
+
+// One cluster for both services instead of a cluster per stack
+const compute = config.sharedCluster
+  ? new ComputeStack(app, "ComputeStack", {
+      vpc: network.vpc,
+      logRemovalPolicy,
+      env,
+    })
+  : undefined;
+
+//
+// Disaster recovery (optional): a warm standby of the network, chain data,
+// database and Engine in a second region, promoted with the commands in the
+// standby stacks' outputs
+//
+const dr = config.disasterRecovery;
+if (dr && (!env.account || !env.region)) {
+  throw new Error(
+    "disasterRecovery needs the account and region, from the stage or CDK_DEFAULT_ACCOUNT and CDK_DEFAULT_REGION",
+  );
+}
+const drEnv = { account: env.account, region: dr?.region };
+// Replica ARNs and the standby file system id cross regions through SSM
+const crossRegionReferences = dr !== undefined;
+
+const drNetwork = dr
+  ? new NetworkStack(app, "DrNetworkStack", {
+      cidr: dr.cidr,
+      natGateways: dr.existingVpc
+        ? undefined
+        : (dr.natGateways ?? config.network.natGateways),
+      existingVpc: dr.existingVpc,
+      chain: config.chain,
+      enginePort: config.engine.runtime?.rpcPort,
+      enableHttps: config.engine.https !== undefined,
+      albIngressCidrs,
+      env: drEnv,
+    })
+  : undefined;
 
-const network = new NetworkStack(app, "NetworkStack", { env });
+// The standby's EFS is the primary's replication destination, so it comes
+// first; its node stays stopped until promotion
+const drDoge = drNetwork
+  ? new DogecoinStack(app, "DrDogecoinStack", {
+      vpc: drNetwork.vpc,
+      dogeSecurityGroup: drNetwork.dogeSg,
+      namespace: drNetwork.namespace,
+      chainProfile: drNetwork.chainProfile,
+      cpu: config.dogecoin.cpu,
+      memoryMiB: config.dogecoin.memoryMiB,
+      desiredCount: 0,
+      imageTag: config.dogecoin.imageTag,
+      standby: true,
+      logRetention: config.logRetentionDays,
+      logRemovalPolicy,
+      crossRegionReferences,
+      env: drEnv,
+    })
+  : undefined;
 
 const doge = new DogecoinStack(app, "DogecoinStack", {
   vpc: network.vpc,
   dogeSecurityGroup: network.dogeSg,
   namespace: network.namespace,
-  environment: environment_overrides,
+  sharedCluster: compute,
+  chainProfile: network.chainProfile,
+  cpu: config.dogecoin.cpu,
+  memoryMiB: config.dogecoin.memoryMiB,
+  desiredCount: config.dogecoin.desiredCount,
+  imageTag: config.dogecoin.imageTag,
+  computeMode: config.dogecoin.computeMode,
+  capacityProviderStrategies: config.dogecoin.capacityProviderStrategy,
+  ec2Host: config.dogecoin.ec2 && {
+    instanceType: config.dogecoin.ec2.instanceType
+      ? new ec2.InstanceType(config.dogecoin.ec2.instanceType)
+      : undefined,
+    dataVolumeSizeGiB: config.dogecoin.ec2.dataVolumeSizeGiB,
+  },
+  bootstrap: config.dogecoin.bootstrap,
+  replicateEfsTo: drDoge?.fileSystem,
+  logRetention: config.logRetentionDays,
+  logRemovalPolicy,
+  crossRegionReferences,
   env,
 });
 
 const db = new DatabaseStack(app, "DatabaseStack", {
   vpc: network.vpc,
   rdsSecurityGroup: network.rdsSg,
+  rdsProxySecurityGroup: network.rdsProxySg,
+  rotationSecurityGroup: network.rdsRotationSg,
+  engineMode: config.database.engineMode,
+  instanceType: config.database.instanceType
+    ? new ec2.InstanceType(config.database.instanceType)
+    : undefined,
+  multiAz: config.database.multiAz,
+  allocatedStorageGiB: config.database.allocatedStorageGiB,
+  maxAllocatedStorageGiB: config.database.maxAllocatedStorageGiB,
+  backupRetentionDays: config.database.backupRetentionDays,
+  minCapacityAcu: config.database.aurora?.minCapacityAcu,
+  maxCapacityAcu: config.database.aurora?.maxCapacityAcu,
+  readers: config.database.aurora?.readers,
+  deletionProtection: config.database.deletionProtection,
+  removalPolicy: config.production ? cdk.RemovalPolicy.SNAPSHOT : undefined,
+  proxy: config.database.proxy,
+  proxyIamAuth: config.database.proxyIamAuth,
+  rotation: config.database.rotation?.mode,
+  rotationDays: config.database.rotation?.days,
+  secretReplicaRegions: dr && [dr.region],
+  globalClusterIdentifier:
+    dr && config.database.engineMode === "aurora-serverless-v2"
+      ? `fractal-${config.stage}`
+      : undefined,
+  crossRegionReferences,
   env,
 });
 
+// Hosted zone for the Engine's HTTPS record (a reference only, no resources)
+const https = config.engine.https;
+const hostedZone = https
+  ? route53.HostedZone.fromHostedZoneAttributes(network, "EngineHostedZone", {
+      hostedZoneId: https.hostedZoneId,
+      zoneName: https.hostedZoneName,
+    })
+  : undefined;
+
+const scaling = config.engine.scaling;
+
 const engine = new EngineStack(app, "EngineStack", {
   vpc: network.vpc,
   albSecurityGroup: network.albSg,
   engineSecurityGroup: network.engineSg,
-  dbHost: db.rdsInstance.instanceEndpoint.hostname,
-  dbPort: db.rdsInstance.instanceEndpoint.port,
-  dbSecret: db.rdsSecret,
+  sharedCluster: compute,
+  dbHost: db.endpointAddress,
+  dbPort: db.endpointPort,
+  dbSecret: db.engineSecret,
+  dbProxy: db.rdsProxy,
+  dbIamAuth: config.database.proxyIamAuth,
+  dbUsername: db.username,
+  dbMasterSecret:
+    config.database.rotation?.mode === "alternating-users"
+      ? db.rdsSecret
+      : undefined,
+  redeployOnDbSecretRotation: config.database.rotation !== undefined,
   dogecoin: {
     host: doge.serviceDiscoveryName,
+    failoverHosts: doge.serviceDiscoveryNames.slice(1),
     rpcPort: doge.rpcPort,
     zmqPort: doge.zmqPort,
+    rpcSecret: doge.rpcSecret,
+  },
+  runtime: { ...config.engine.runtime, chain: config.chain },
+  cpu: config.engine.cpu,
+  memoryMiB: config.engine.memoryMiB,
+  desiredCount: config.engine.desiredCount,
+  capacityProviderStrategies: config.engine.capacityProviderStrategy,
+  scaling: scaling && {
+    ...scaling,
+    schedules: scaling.schedules?.map((schedule) => ({
+      ...schedule,
+      schedule: appscaling.Schedule.expression(schedule.expression),
+    })),
   },
+  engineImageTag: config.engine.imageTag,
+  migration: config.engine.migration && {
+    command: config.engine.migration.command,
+    timeout:
+      config.engine.migration.timeoutMinutes !== undefined
+        ? cdk.Duration.minutes(config.engine.migration.timeoutMinutes)
+        : undefined,
+  },
+  blueGreen: blueGreen && {
+    trafficShift: blueGreen.trafficShift,
+    percent: blueGreen.percent,
+    interval:
+      blueGreen.intervalMinutes !== undefined
+        ? cdk.Duration.minutes(blueGreen.intervalMinutes)
+        : undefined,
+    testListenerPort: blueGreen.testListenerPort,
+    terminationWait:
+      blueGreen.terminationWaitMinutes !== undefined
+        ? cdk.Duration.minutes(blueGreen.terminationWaitMinutes)
+        : undefined,
+  },
+  rollbackOn5xxPerMinute: config.engine.rollbackOn5xxPerMinute,
+  logRetention: config.logRetentionDays,
+  logRemovalPolicy,
+  domainName: https?.domainName,
+  hostedZone,
+  certificateArn: https?.certificateArn,
+  waf: config.engine.waf,
+  exposure,
+  endpointService,
+  apiGateway,
   env,
 });
 
 // Ensure Dogecoin deploys before the Engine
 engine.addDependency(doge);
 engine.addDependency(db);
+
+new MonitoringStack(app, "MonitoringStack", {
+  engineService: engine.service,
+  loadBalancer: engine.loadBalancer,
+  targetGroup: engine.targetGroup,
+  greenTargetGroup: engine.greenTargetGroup,
+  engineWaf: engine.waf,
+  rdsInstance: db.rdsInstance,
+  rdsCluster: db.rdsCluster,
+  dogecoinServices: doge.services,
+  dogecoinFileSystem: doge.fileSystem,
+  dogecoinSyncLagAlarm: doge.syncLagAlarm,
+  dogecoinSyncMetrics: [
+    "BlockHeight",
+    "HeaderLag",
+    "PeerCount",
+    "VerificationProgress",
+  ].map((name) => doge.metricSync(name)),
+  alarmEmails: config.monitoring?.alarmEmails,
+  alarmWebhookUrls: config.monitoring?.alarmWebhookUrls,
+  env,
+});
+
+if (config.backup) {
+  new BackupStack(app, "BackupStack", {
+    rdsInstance: db.rdsInstance,
+    rdsCluster: db.rdsCluster,
+    fileSystem: doge.fileSystem,
+    dataVolumes: doge.dataVolumes,
+    dailyRetentionDays: config.backup.dailyRetentionDays,
+    weeklyRetentionDays: config.backup.weeklyRetentionDays,
+    monthlyRetentionDays: config.backup.monthlyRetentionDays,
+    copyToVaultArn: config.backup.copyToVaultArn,
+    restoreTesting: config.backup.restoreTesting,
+    env,
+  });
+}
+
+if (dr && drNetwork && drDoge) {
+  const drDb = new DatabaseReplicaStack(app, "DrDatabaseStack", {
+    vpc: drNetwork.vpc,
+    rdsSecurityGroup: drNetwork.rdsSg,
+    sourceInstance: db.rdsInstance,
+    globalClusterIdentifier: db.globalCluster?.globalClusterIdentifier,
+    credentialsSecretName: db.credentialsSecretName,
+    instanceType: config.database.instanceType
+      ? new ec2.InstanceType(config.database.instanceType)
+      : undefined,
+    backupRetentionDays: config.database.backupRetentionDays,
+    minCapacityAcu: config.database.aurora?.minCapacityAcu,
+    maxCapacityAcu: config.database.aurora?.maxCapacityAcu,
+    deletionProtection: config.database.deletionProtection,
+    // RDS can't take a final snapshot of a read replica
+    removalPolicy: config.production ? cdk.RemovalPolicy.RETAIN : undefined,
+    crossRegionReferences,
+    env: drEnv,
+  });
+  drDb.addDependency(db);
+
+  const drEngine = new EngineStack(app, "DrEngineStack", {
+    vpc: drNetwork.vpc,
+    albSecurityGroup: drNetwork.albSg,
+    engineSecurityGroup: drNetwork.engineSg,
+    dbHost: drDb.endpointAddress,
+    dbPort: drDb.endpointPort,
+    dbSecret: drDb.secret,
+    dogecoin: {
+      host: drDoge.serviceDiscoveryName,
+      failoverHosts: drDoge.serviceDiscoveryNames.slice(1),
+      rpcPort: drDoge.rpcPort,
+      zmqPort: drDoge.zmqPort,
+      rpcSecret: drDoge.rpcSecret,
+    },
+    runtime: { ...config.engine.runtime, chain: config.chain },
+    cpu: config.engine.cpu,
+    memoryMiB: config.engine.memoryMiB,
+    desiredCount: dr.engineDesiredCount ?? 0,
+    engineImageTag: config.engine.imageTag,
+    rollbackOn5xxPerMinute: config.engine.rollbackOn5xxPerMinute,
+    logRetention: config.logRetentionDays,
+    logRemovalPolicy,
+    domainName: https?.domainName,
+    hostedZone: https
+      ? route53.HostedZone.fromHostedZoneAttributes(
+          drNetwork,
+          "EngineHostedZone",
+          {
+            hostedZoneId: https.hostedZoneId,
+            zoneName: https.hostedZoneName,
+          },
+        )
+      : undefined,
+    certificateArn: dr.certificateArn,
+    waf: config.engine.waf,
+    exposure,
+    endpointService,
+    apiGateway,
+    standby: { promotedDesiredCount: config.engine.desiredCount },
+    env: drEnv,
+  });
+  drEngine.addDependency(drDoge);
+  drEngine.addDependency(drDb);
+}
+
+cdk.Tags.of(app).add("Stage", config.stage);
+
+// Fail synth on settings that are unsafe in production
+if (config.production) {
+  cdk.Aspects.of(app).add(
+    new ProductionGuardrails({
+      suppressions: config.guardrails?.suppressions,
+    }),
+  );
+}
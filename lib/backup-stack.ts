@@ -0,0 +1,270 @@
+import * as path from "path";
+import * as cdk from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+import * as backup from "aws-cdk-lib/aws-backup";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as efs from "aws-cdk-lib/aws-efs";
+import * as events from "aws-cdk-lib/aws-events";
+import * as eventstargets from "aws-cdk-lib/aws-events-targets";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as kms from "aws-cdk-lib/aws-kms";
+import * as lambda from "aws-cdk-lib/aws-lambda";
+import * as rds from "aws-cdk-lib/aws-rds";
+
+export interface BackupStackProps extends cdk.StackProps {
+  // Protected resources
+  // From DatabaseStack: the instance or the Aurora cluster
+  rdsInstance?: rds.IDatabaseInstance;
+  rdsCluster?: rds.IDatabaseCluster;
+  // Dogecoin data from DogecoinStack: the EFS filesystem (fargate) or the
+  // per-node EBS data volumes (ec2)
+  fileSystem?: efs.IFileSystem;
+  dataVolumes?: ec2.IVolume[];
+
+  // Retention
+  dailyRetentionDays?: number; // default 7
+  weeklyRetentionDays?: number; // default 35
+  monthlyRetentionDays?: number; // default 365
+
+  // Cross-region copy (optional): vault in the secondary region
+  copyToVaultArn?: string;
+  copyRetentionDays?: number; // defaults to each rule's retention
+
+  // Monthly automated restore test of the latest recovery points in the
+  // vault (not the copies), validated by checking that each restored resource
+  // is available
+  restoreTesting?: boolean; // default true
+}
+
+/**
+ * BackupStack
+ * - KMS-encrypted AWS Backup vault (retained on stack deletion)
+ * - Daily, weekly and monthly backup rules for the Engine database and the
+ *   Dogecoin data (EFS filesystem or EBS volume), with optional cross-region
+ *   copies
+ * - Optional AWS Backup restore testing plan, exposed through stack outputs;
+ *   a Lambda validates each restore (see restore-validation-handler) and the
+ *   restored resources are deleted once it reports or the window closes
+ */
+export class BackupStack extends cdk.Stack {
+  public readonly vault: backup.BackupVault;
+  public readonly plan: backup.BackupPlan;
+
+  constructor(scope: Construct, id: string, props: BackupStackProps) {
+    super(scope, id, props);
+
+    const dogecoinArns = props.fileSystem
+      ? [props.fileSystem.fileSystemArn]
+      : (props.dataVolumes ?? []).map((volume) =>
+          this.formatArn({
+            service: "ec2",
+            resource: "volume",
+            resourceName: volume.volumeId,
+          }),
+        );
+    if (!props.rdsInstance === !props.rdsCluster) {
+      throw new Error(`${id}: set exactly one of rdsInstance or rdsCluster`);
+    }
+    if (dogecoinArns.length === 0) {
+      throw new Error(`${id}: set fileSystem or dataVolumes`);
+    }
+
+    const key = new kms.Key(this, "BackupKey", {
+      description: "Encrypts the Fractal backup vault",
+      enableKeyRotation: true,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    this.vault = new backup.BackupVault(this, "BackupVault", {
+      encryptionKey: key,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    const copyTo = props.copyToVaultArn
+      ? backup.BackupVault.fromBackupVaultArn(
+          this,
+          "CopyVault",
+          props.copyToVaultArn,
+        )
+      : undefined;
+
+    const rule = (
+      ruleName: string,
+      scheduleExpression: events.Schedule,
+      retentionDays: number,
+    ) =>
+      new backup.BackupPlanRule({
+        ruleName,
+        backupVault: this.vault,
+        scheduleExpression,
+        startWindow: cdk.Duration.hours(1),
+        completionWindow: cdk.Duration.hours(8),
+        deleteAfter: cdk.Duration.days(retentionDays),
+        copyActions: copyTo
+          ? [
+              {
+                destinationBackupVault: copyTo,
+                deleteAfter: cdk.Duration.days(
+                  props.copyRetentionDays ?? retentionDays,
+                ),
+              },
+            ]
+          : undefined,
+      });
+
+    this.plan = new backup.BackupPlan(this, "BackupPlan", {
+      backupVault: this.vault,
+      backupPlanRules: [
+        rule(
+          "Daily",
+          events.Schedule.cron({ hour: "5", minute: "0" }),
+          props.dailyRetentionDays ?? 7,
+        ),
+        rule(
+          "Weekly",
+          events.Schedule.cron({ weekDay: "SUN", hour: "6", minute: "0" }),
+          props.weeklyRetentionDays ?? 35,
+        ),
+        rule(
+          "Monthly",
+          events.Schedule.cron({ day: "1", hour: "7", minute: "0" }),
+          props.monthlyRetentionDays ?? 365,
+        ),
+      ],
+    });
+
+    this.plan.addSelection("FractalResources", {
+      resources: [
+        props.rdsInstance
+          ? backup.BackupResource.fromRdsDatabaseInstance(props.rdsInstance)
+          : backup.BackupResource.fromRdsDatabaseCluster(
+              props.rdsCluster as rds.IDatabaseCluster,
+            ),
+        ...dogecoinArns.map((arn) => backup.BackupResource.fromArn(arn)),
+      ],
+      allowRestores: true,
+    });
+
+    //
+    // Restore testing (optional)
+    //
+    if (props.restoreTesting ?? true) {
+      // Restore testing names only allow letters, digits and underscores
+      const planName = `${this.stackName.replace(/[^A-Za-z0-9_]/g, "_")}_restore_test`;
+
+      const restoreRole = new iam.Role(this, "RestoreTestRole", {
+        assumedBy: new iam.ServicePrincipal("backup.amazonaws.com"),
+        managedPolicies: [
+          iam.ManagedPolicy.fromAwsManagedPolicyName(
+            "service-role/AWSBackupServiceRolePolicyForRestores",
+          ),
+        ],
+      });
+      key.grantDecrypt(restoreRole);
+
+      const restorePlan = new backup.CfnRestoreTestingPlan(
+        this,
+        "RestoreTestingPlan",
+        {
+          restoreTestingPlanName: planName,
+          scheduleExpression: "cron(0 9 ? * 2#1 *)", // first Monday of the month
+          startWindowHours: 8,
+          recoveryPointSelection: {
+            algorithm: "LATEST_WITHIN_WINDOW",
+            includeVaults: [this.vault.backupVaultArn],
+            recoveryPointTypes: ["SNAPSHOT"],
+            selectionWindowDays: 7,
+          },
+        },
+      );
+
+      const selections: [string, string, string[]][] = [
+        props.rdsInstance
+          ? ["RDS", "rds", [props.rdsInstance.instanceArn]]
+          : [
+              "Aurora",
+              "aurora",
+              [(props.rdsCluster as rds.IDatabaseCluster).clusterArn],
+            ],
+        props.fileSystem
+          ? ["EFS", "efs", dogecoinArns]
+          : ["EBS", "ebs", dogecoinArns],
+      ];
+      for (const [resourceType, name, arns] of selections) {
+        const selection = new backup.CfnRestoreTestingSelection(
+          this,
+          `RestoreTestingSelection${resourceType}`,
+          {
+            restoreTestingPlanName: planName,
+            restoreTestingSelectionName: `${name}_restore_test`,
+            protectedResourceType: resourceType,
+            protectedResourceArns: arns,
+            iamRoleArn: restoreRole.roleArn,
+            validationWindowHours: 4,
+          },
+        );
+        selection.addDependency(restorePlan);
+      }
+
+      // Reports each restore's validation result while the window is open
+      const validateFn = new lambda.Function(this, "RestoreValidation", {
+        runtime: lambda.Runtime.NODEJS_20_X,
+        handler: "index.handler",
+        code: lambda.Code.fromAsset(
+          path.join(__dirname, "restore-validation-handler"),
+        ),
+        timeout: cdk.Duration.minutes(1),
+        description: "Validates restore testing jobs",
+        environment: {
+          RESTORE_TESTING_PLAN_ARN: restorePlan.attrRestoreTestingPlanArn,
+        },
+      });
+      validateFn.addToRolePolicy(
+        new iam.PolicyStatement({
+          actions: [
+            "backup:DescribeRestoreJob",
+            "backup:PutRestoreValidationResult",
+            "rds:DescribeDBInstances",
+            "rds:DescribeDBClusters",
+            "elasticfilesystem:DescribeFileSystems",
+            "ec2:DescribeVolumes",
+          ],
+          resources: ["*"],
+        }),
+      );
+      new events.Rule(this, "RestoreCompletedRule", {
+        description: "Restore job completed",
+        eventPattern: {
+          source: ["aws.backup"],
+          detailType: ["Restore Job State Change"],
+          detail: { status: ["COMPLETED"] },
+        },
+        targets: [new eventstargets.LambdaFunction(validateFn)],
+      });
+
+      new cdk.CfnOutput(this, "RestoreTestingPlanName", {
+        value: planName,
+      });
+      new cdk.CfnOutput(this, "RestoreTestJobsCommand", {
+        value: `aws backup list-restore-jobs --by-restore-testing-plan-arn ${restorePlan.attrRestoreTestingPlanArn}`,
+      });
+      new cdk.CfnOutput(this, "RestoreValidationFunctionName", {
+        value: validateFn.functionName,
+      });
+    }
+
+    //
+    // Outputs
+    //
+    new cdk.CfnOutput(this, "BackupVaultName", {
+      value: this.vault.backupVaultName,
+    });
+    new cdk.CfnOutput(this, "BackupPlanId", {
+      value: this.plan.backupPlanId,
+    });
+    new cdk.CfnOutput(this, "ListRecoveryPointsCommand", {
+      value: `aws backup list-recovery-points-by-backup-vault --backup-vault-name ${this.vault.backupVaultName}`,
+    });
+  }
+}
@@ -0,0 +1,111 @@
+#!/bin/bash
+# Populates the Dogecoin data directory once, before the node first starts.
+#
+# Sources (exactly one):
+#   SNAPSHOT_URI        s3://bucket/key of a .tar or .tar.gz of the datadir,
+#                       verified against EXPECTED_SHA256
+#   RECOVERY_POINT_ARN  AWS Backup recovery point of the Dogecoin EFS, restored
+#                       in place using RESTORE_ROLE_ARN and FILE_SYSTEM_ID
+#
+# FS_ROOT is where the filesystem root is mounted, DATA_DIR the datadir under it
+# and RESTORE_PATH the datadir inside the recovery point, relative to the
+# filesystem root (e.g. /dogecoin).
+set -euo pipefail
+
+MARKER="$DATA_DIR/.fractal-bootstrap"
+STAGING="$DATA_DIR/.bootstrap-staging"
+
+log() { echo "[bootstrap] $*"; }
+
+mkdir -p "$DATA_DIR"
+if [ -f "$MARKER" ]; then
+  log "already bootstrapped: $(cat "$MARKER")"
+  exit 0
+fi
+
+# Leftovers from an interrupted run are safe to drop
+rm -rf "$STAGING"
+
+if [ -n "$(find "$DATA_DIR" -mindepth 1 -maxdepth 1 | head -n 1)" ]; then
+  log "$DATA_DIR already holds chain data; leaving it alone"
+  echo "skipped (existing data) $(date -u +%FT%TZ)" > "$MARKER"
+  exit 0
+fi
+
+if [ -n "${SNAPSHOT_URI:-}" ]; then
+  case "$SNAPSHOT_URI" in
+    *.tar.gz | *.tgz) TAR_FLAGS="-xz" ;;
+    *.tar) TAR_FLAGS="-x" ;;
+    *) log "unsupported snapshot format: $SNAPSHOT_URI (use .tar or .tar.gz)"; exit 2 ;;
+  esac
+
+  mkdir -p "$STAGING"
+  mkfifo /tmp/snapshot.pipe
+  sha256sum < /tmp/snapshot.pipe | cut -d' ' -f1 > /tmp/snapshot.sha256 &
+  SUM_PID=$!
+
+  log "streaming $SNAPSHOT_URI"
+  aws s3 cp "$SNAPSHOT_URI" - | tee /tmp/snapshot.pipe | tar $TAR_FLAGS --no-same-owner -C "$STAGING"
+  wait "$SUM_PID"
+
+  ACTUAL_SHA256="$(cat /tmp/snapshot.sha256)"
+  if [ "$ACTUAL_SHA256" != "$EXPECTED_SHA256" ]; then
+    log "checksum mismatch: expected $EXPECTED_SHA256, got $ACTUAL_SHA256"
+    rm -rf "$STAGING"
+    exit 3
+  fi
+
+  find "$STAGING" -mindepth 1 -maxdepth 1 -exec mv -t "$DATA_DIR" {} +
+  rmdir "$STAGING"
+  echo "s3 $SNAPSHOT_URI sha256=$ACTUAL_SHA256 $(date -u +%FT%TZ)" > "$MARKER"
+
+elif [ -n "${RECOVERY_POINT_ARN:-}" ]; then
+  METADATA=$(printf '{"file-system-id":"%s","newFileSystem":"false","Encrypted":"true","PerformanceMode":"generalPurpose","CreationToken":"fractal-bootstrap","ItemsToRestore":"[\\"%s\\"]"}' \
+    "$FILE_SYSTEM_ID" "$RESTORE_PATH")
+
+  # Restore directories already on the filesystem, so the job's own one can be
+  # told apart from leftovers of other runs
+  ls -d "$FS_ROOT"/aws-backup-restore_* 2>/dev/null | sort > /tmp/restore-dirs.before || true
+
+  JOB_ID=$(aws backup start-restore-job \
+    --recovery-point-arn "$RECOVERY_POINT_ARN" \
+    --iam-role-arn "$RESTORE_ROLE_ARN" \
+    --resource-type EFS \
+    --metadata "$METADATA" \
+    --query RestoreJobId --output text)
+  log "restore job $JOB_ID started from $RECOVERY_POINT_ARN"
+
+  while :; do
+    STATUS=$(aws backup describe-restore-job --restore-job-id "$JOB_ID" --query Status --output text)
+    case "$STATUS" in
+      COMPLETED) break ;;
+      ABORTED | FAILED)
+        log "restore job $JOB_ID $STATUS"
+        exit 4 ;;
+    esac
+    sleep 30
+  done
+
+  # AWS Backup restores in place under /aws-backup-restore_<timestamp>/
+  ls -d "$FS_ROOT"/aws-backup-restore_* 2>/dev/null | sort > /tmp/restore-dirs.after || true
+  NEW_DIRS="$(comm -13 /tmp/restore-dirs.before /tmp/restore-dirs.after)"
+  if [ "$(printf '%s\n' "$NEW_DIRS" | grep -c .)" != 1 ]; then
+    log "expected one new restore directory for job $JOB_ID, found: ${NEW_DIRS:-none}"
+    exit 4
+  fi
+  RESTORE_ROOT="$NEW_DIRS"
+  if [ ! -d "$RESTORE_ROOT$RESTORE_PATH" ]; then
+    log "recovery point has no $RESTORE_PATH"
+    rm -rf "$RESTORE_ROOT"
+    exit 4
+  fi
+  find "$RESTORE_ROOT$RESTORE_PATH" -mindepth 1 -maxdepth 1 -exec mv -t "$DATA_DIR" {} +
+  rm -rf "$RESTORE_ROOT"
+  echo "backup $RECOVERY_POINT_ARN job=$JOB_ID $(date -u +%FT%TZ)" > "$MARKER"
+
+else
+  log "set SNAPSHOT_URI or RECOVERY_POINT_ARN"
+  exit 2
+fi
+
+log "done"
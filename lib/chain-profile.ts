@@ -0,0 +1,86 @@
+export type Chain = "mainnet" | "testnet" | "regtest";
+
+export const CHAINS: Chain[] = ["mainnet", "testnet", "regtest"];
+
+export interface DogecoinPorts {
+  rpcPort: number;
+  p2pPort: number;
+  zmqPort: number;
+}
+
+/**
+ * ChainProfile
+ * - The chain a Dogecoin node runs on and the ports it listens on
+ * - Built once (usually by NetworkStack) and shared with DogecoinStack so the
+ *   security group rules and the container port mappings can't drift apart
+ */
+export interface ChainProfile extends DogecoinPorts {
+  chain: Chain;
+}
+
+// dogecoind defaults per chain
+export const DEFAULT_CHAIN_PORTS: Record<Chain, DogecoinPorts> = {
+  mainnet: { rpcPort: 22555, p2pPort: 22556, zmqPort: 28000 },
+  testnet: { rpcPort: 44555, p2pPort: 44556, zmqPort: 28000 },
+  regtest: { rpcPort: 18332, p2pPort: 18444, zmqPort: 28000 },
+};
+
+/**
+ * Returns the profile for `chain`, with any port overrides applied.
+ */
+export function chainProfile(
+  chain: Chain,
+  overrides?: Partial<DogecoinPorts>,
+): ChainProfile {
+  if (!CHAINS.includes(chain)) {
+    throw new Error(
+      `Unknown chain "${chain}". Expected one of ${CHAINS.join(", ")}`,
+    );
+  }
+
+  const profile: ChainProfile = {
+    chain,
+    ...DEFAULT_CHAIN_PORTS[chain],
+    ...definedOnly(overrides ?? {}),
+  };
+
+  const ports = [profile.rpcPort, profile.p2pPort, profile.zmqPort];
+  for (const port of ports) {
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new Error(`Invalid Dogecoin port ${port} for chain ${chain}`);
+    }
+  }
+  if (new Set(ports).size !== ports.length) {
+    throw new Error(
+      `Dogecoin RPC, P2P and ZMQ ports must differ (got ${ports.join(", ")})`,
+    );
+  }
+
+  return profile;
+}
+
+/**
+ * Throws if any explicitly set port or chain disagrees with the profile.
+ * `source` names where the values came from, for the error message.
+ */
+export function assertMatchesChainProfile(
+  profile: ChainProfile,
+  values: Partial<DogecoinPorts> & { chain?: string },
+  source: string,
+) {
+  const mismatches = (Object.keys(values) as (keyof ChainProfile)[])
+    .filter((key) => values[key] !== undefined && values[key] !== profile[key])
+    .map((key) => `${key}=${values[key]} (profile has ${profile[key]})`);
+
+  if (mismatches.length > 0) {
+    throw new Error(
+      `${source} does not match the ${profile.chain} chain profile: ${mismatches.join(", ")}`,
+    );
+  }
+}
+
+function definedOnly<T extends object>(obj: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([, value]) => value !== undefined),
+  ) as Partial<T>;
+}
@@ -0,0 +1,75 @@
+import * as cdk from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import { EcsExecAccess, EcsExecAccessProps } from "./ecs-exec-access";
+
+/**
+ * A cluster shared by several service stacks, with the ECS Exec access that
+ * records its sessions. ComputeStack is one.
+ */
+export interface SharedCluster {
+  cluster: ecs.ICluster;
+  ecsExec: EcsExecAccess;
+}
+
+export interface ComputeStackProps extends cdk.StackProps {
+  // From NetworkStack
+  vpc: ec2.IVpc;
+
+  containerInsights?: boolean; // default true
+
+  // ECS Exec operator role and session logs
+  ecsExec?: EcsExecAccessProps;
+  logRemovalPolicy?: cdk.RemovalPolicy; // default RETAIN (ECS Exec session logs)
+}
+
+/**
+ * ComputeStack
+ * - One ECS cluster for the Dogecoin and Engine services, so they share
+ *   Container Insights and operations instead of running a cluster each
+ * - FARGATE and FARGATE_SPOT capacity providers are enabled; each service
+ *   picks its own capacity provider strategy
+ * - ECS Exec is limited to an operator role for this cluster and every session
+ *   is logged (see EcsExecAccess)
+ */
+export class ComputeStack extends cdk.Stack implements SharedCluster {
+  public readonly cluster: ecs.Cluster;
+  public readonly ecsExec: EcsExecAccess;
+
+  constructor(scope: Construct, id: string, props: ComputeStackProps) {
+    super(scope, id, props);
+
+    this.ecsExec = new EcsExecAccess(this, "EcsExec", {
+      removalPolicy: props.logRemovalPolicy,
+      ...props.ecsExec,
+    });
+    this.cluster = new ecs.Cluster(this, "SharedCluster", {
+      vpc: props.vpc,
+      containerInsights: props.containerInsights ?? true,
+      enableFargateCapacityProviders: true,
+      executeCommandConfiguration: this.ecsExec.configuration,
+    });
+    this.ecsExec.allowExecInto(this.cluster);
+
+    //
+    // Outputs
+    //
+    new cdk.CfnOutput(this, "ClusterName", {
+      value: this.cluster.clusterName,
+    });
+    new cdk.CfnOutput(this, "EcsExecOperatorPolicyArn", {
+      value: this.ecsExec.operatorPolicy.managedPolicyArn,
+    });
+    new cdk.CfnOutput(this, "EcsExecOperatorRoleArn", {
+      value: this.ecsExec.operatorRole.roleArn,
+    });
+    new cdk.CfnOutput(this, "EcsExecSessionLogGroup", {
+      value: this.ecsExec.logGroup.logGroupName,
+    });
+    new cdk.CfnOutput(this, "EcsExecSessionLogBucket", {
+      value: this.ecsExec.bucket.bucketName,
+    });
+  }
+}
@@ -0,0 +1,117 @@
+import * as cdk from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
+
+import { EcsRunTask } from "./ecs-run-task";
+
+// Creates, unless they exist, a NOLOGIN "<app>_owner" role with CONNECT on the
+// database and USAGE/CREATE on the public schema, and the app user and its
+// "_clone" as its members. Both log in as the owner role, so whichever one is
+// current owns the tables and the other can still use them. Rotation finds the
+// clone already there and only sets its password.
+const CREATE_APP_USER_SCRIPT = `psql -v ON_ERROR_STOP=1 -v app_user="$APP_USER" -v app_password="$APP_PASSWORD" <<'SQL'
+\\set owner :app_user _owner
+\\set clone :app_user _clone
+SELECT format('CREATE ROLE %I NOLOGIN', :'owner')
+WHERE NOT EXISTS (SELECT FROM pg_roles WHERE rolname = :'owner')
+\\gexec
+SELECT format('CREATE ROLE %I LOGIN PASSWORD %L IN ROLE %I', :'app_user', :'app_password', :'owner')
+WHERE NOT EXISTS (SELECT FROM pg_roles WHERE rolname = :'app_user')
+\\gexec
+SELECT format('CREATE ROLE %I LOGIN IN ROLE %I', :'clone', :'owner')
+WHERE NOT EXISTS (SELECT FROM pg_roles WHERE rolname = :'clone')
+\\gexec
+ALTER ROLE :"app_user" SET role TO :"owner";
+ALTER ROLE :"clone" SET role TO :"owner";
+GRANT CONNECT ON DATABASE :"DBNAME" TO :"owner";
+GRANT USAGE, CREATE ON SCHEMA public TO :"owner";
+-- Tables the master user created before the switch stay its own
+GRANT SELECT, INSERT, UPDATE, DELETE ON ALL TABLES IN SCHEMA public TO :"owner";
+GRANT USAGE, SELECT, UPDATE ON ALL SEQUENCES IN SCHEMA public TO :"owner";
+SQL`;
+
+export interface DatabaseAppUserProps {
+  cluster: ecs.ICluster;
+  capacityProviderStrategies?: ecs.CapacityProviderStrategy[];
+  vpc: ec2.IVpc;
+  vpcSubnets?: ec2.SubnetSelection; // defaults to PRIVATE_WITH_EGRESS
+  securityGroup: ec2.ISecurityGroup; // must reach the database
+
+  // The database itself, not a proxy
+  host: string;
+  port: number;
+  databaseName: string;
+  masterSecret: secretsmanager.ISecret;
+  appSecret: secretsmanager.ISecret; // the user to create
+
+  logGroup: logs.ILogGroup;
+}
+
+/**
+ * DatabaseAppUser
+ * - One-off Fargate task that creates the "alternating-users" app user
+ *   (DatabaseStack) with psql and the master credentials
+ * - Grants only what the Engine needs through an owner role; neither the app
+ *   user nor its clone gets the master user's memberships
+ * - Runs once; the first rotation is a rotation period away, so the user
+ *   exists by then
+ * - Make the Engine service depend on it so the Engine logs in after it
+ */
+export class DatabaseAppUser extends Construct {
+  constructor(scope: Construct, id: string, props: DatabaseAppUserProps) {
+    super(scope, id);
+
+    const taskDef = new ecs.FargateTaskDefinition(this, "TaskDef", {
+      cpu: 256,
+      memoryLimitMiB: 512,
+    });
+    const container = taskDef.addContainer("CreateAppUser", {
+      image: ecs.ContainerImage.fromRegistry(
+        "public.ecr.aws/docker/library/postgres:15-alpine",
+      ),
+      entryPoint: ["sh", "-c"],
+      command: [CREATE_APP_USER_SCRIPT],
+      environment: {
+        PGHOST: props.host,
+        PGPORT: cdk.Tokenization.stringifyNumber(props.port),
+        PGDATABASE: props.databaseName,
+        PGSSLMODE: "require",
+      },
+      secrets: {
+        PGUSER: ecs.Secret.fromSecretsManager(props.masterSecret, "username"),
+        PGPASSWORD: ecs.Secret.fromSecretsManager(
+          props.masterSecret,
+          "password",
+        ),
+        APP_USER: ecs.Secret.fromSecretsManager(props.appSecret, "username"),
+        APP_PASSWORD: ecs.Secret.fromSecretsManager(
+          props.appSecret,
+          "password",
+        ),
+      },
+      logging: ecs.LogDrivers.awsLogs({
+        streamPrefix: "app-user",
+        logGroup: props.logGroup,
+      }),
+      essential: true,
+    });
+
+    new EcsRunTask(this, "Run", {
+      cluster: props.cluster,
+      taskDefinition: taskDef,
+      containerName: container.containerName,
+      capacityProviderStrategies: props.capacityProviderStrategies,
+      vpc: props.vpc,
+      vpcSubnets: props.vpcSubnets,
+      securityGroups: [props.securityGroup],
+      logGroup: props.logGroup,
+      logStreamPrefix: "app-user",
+      runOnUpdate: false,
+      timeout: cdk.Duration.minutes(15),
+    });
+  }
+}
@@ -0,0 +1,165 @@
+import * as cdk from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as kms from "aws-cdk-lib/aws-kms";
+import * as rds from "aws-cdk-lib/aws-rds";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
+
+export interface DatabaseReplicaStackProps extends cdk.StackProps {
+  // Network in this (standby) region
+  vpc: ec2.IVpc;
+  rdsSecurityGroup: ec2.ISecurityGroup;
+  dbSubnetSelection?: ec2.SubnetSelection; // defaults to PRIVATE_ISOLATED
+
+  // The primary (from DatabaseStack): an RDS instance to replicate, or the
+  // global database its Aurora cluster belongs to. Set exactly one.
+  sourceInstance?: rds.IDatabaseInstance;
+  globalClusterIdentifier?: string;
+
+  // Credentials secret the primary DatabaseStack replicates into this region
+  credentialsSecretName: string;
+
+  // Instance replica
+  instanceType?: ec2.InstanceType; // default t3.micro
+  backupRetentionDays?: number; // default 3, switched on by the promotion
+
+  // Aurora secondary
+  minCapacityAcu?: number; // default 0.5
+  maxCapacityAcu?: number; // default 4
+
+  deletionProtection?: boolean;
+  removalPolicy?: cdk.RemovalPolicy; // default DESTROY; RETAIN for production
+}
+
+/**
+ * DatabaseReplicaStack
+ * - Standby database in a disaster recovery region: a cross-region read
+ *   replica of the primary RDS instance, or a secondary Aurora Serverless v2
+ *   cluster in the primary's global database
+ * - Reads the credentials from the primary's secret, replicated into this
+ *   region by DatabaseStack (secretReplicaRegions)
+ * - Read-only until promoted; the endpoint is unchanged by promotion, so a
+ *   standby EngineStack can be configured with it up front
+ * - Outputs the promotion command
+ */
+export class DatabaseReplicaStack extends cdk.Stack {
+  public readonly replica?: rds.DatabaseInstanceReadReplica; // instance replica
+  public readonly cluster?: rds.CfnDBCluster; // aurora secondary
+  public readonly secret: secretsmanager.ISecret; // master user
+  public readonly endpointAddress: string;
+  public readonly endpointPort: number;
+
+  constructor(scope: Construct, id: string, props: DatabaseReplicaStackProps) {
+    super(scope, id, props);
+
+    if (!props.sourceInstance === !props.globalClusterIdentifier) {
+      throw new Error(
+        `${id}: set exactly one of sourceInstance or globalClusterIdentifier`,
+      );
+    }
+    const removalPolicy = props.removalPolicy ?? cdk.RemovalPolicy.DESTROY;
+
+    this.secret = secretsmanager.Secret.fromSecretNameV2(
+      this,
+      "RdsSecret",
+      props.credentialsSecretName,
+    );
+
+    const vpcSubnets = props.dbSubnetSelection ?? {
+      subnetType: ec2.SubnetType.PRIVATE_ISOLATED,
+    };
+    // Ingress rules live in NetworkStack
+    const rdsSg = ec2.SecurityGroup.fromSecurityGroupId(
+      this,
+      "RdsSg",
+      props.rdsSecurityGroup.securityGroupId,
+      { mutable: false },
+    );
+
+    let promoteCommand: string;
+
+    if (props.sourceInstance) {
+      this.replica = new rds.DatabaseInstanceReadReplica(
+        this,
+        "FractalDbReplica",
+        {
+          sourceDatabaseInstance: props.sourceInstance,
+          vpc: props.vpc,
+          vpcSubnets,
+          securityGroups: [rdsSg],
+
+          instanceType:
+            props.instanceType ??
+            ec2.InstanceType.of(ec2.InstanceClass.T3, ec2.InstanceSize.MICRO),
+          storageType: rds.StorageType.GP3,
+
+          publiclyAccessible: false,
+          deletionProtection: props.deletionProtection ?? false,
+          removalPolicy,
+          cloudwatchLogsExports: ["postgresql"],
+        },
+      );
+      this.endpointAddress = this.replica.instanceEndpoint.hostname;
+      this.endpointPort = this.replica.instanceEndpoint.port;
+      promoteCommand = `aws rds promote-read-replica --db-instance-identifier ${this.replica.instanceIdentifier} --backup-retention-period ${props.backupRetentionDays ?? 3} --region ${this.region}`;
+    } else {
+      // CloudFormation has no L2 for a headless secondary: it takes its
+      // engine, credentials and database from the global cluster
+      const subnetGroup = new rds.SubnetGroup(this, "FractalDbSubnetGroup", {
+        vpc: props.vpc,
+        vpcSubnets,
+        description: "Standby Aurora cluster subnets",
+        removalPolicy,
+      });
+      // Cross-region secondaries of an encrypted cluster need a key here
+      const key = new kms.Key(this, "FractalDbKey", {
+        description: "Encrypts the standby Aurora cluster",
+        enableKeyRotation: true,
+        removalPolicy,
+      });
+
+      this.cluster = new rds.CfnDBCluster(this, "FractalDbCluster", {
+        globalClusterIdentifier: props.globalClusterIdentifier,
+        engine: "aurora-postgresql",
+        engineVersion:
+          rds.AuroraPostgresEngineVersion.VER_15_7.auroraPostgresFullVersion,
+        dbSubnetGroupName: subnetGroup.subnetGroupName,
+        vpcSecurityGroupIds: [rdsSg.securityGroupId],
+        storageEncrypted: true,
+        kmsKeyId: key.keyArn,
+        serverlessV2ScalingConfiguration: {
+          minCapacity: props.minCapacityAcu ?? 0.5,
+          maxCapacity: props.maxCapacityAcu ?? 4,
+        },
+        deletionProtection: props.deletionProtection ?? false,
+        enableCloudwatchLogsExports: ["postgresql"],
+      });
+      this.cluster.applyRemovalPolicy(removalPolicy);
+
+      new rds.CfnDBInstance(this, "Writer", {
+        dbClusterIdentifier: this.cluster.ref,
+        dbInstanceClass: "db.serverless",
+        engine: "aurora-postgresql",
+        publiclyAccessible: false,
+      });
+
+      this.endpointAddress = this.cluster.attrEndpointAddress;
+      this.endpointPort = cdk.Token.asNumber(this.cluster.attrEndpointPort);
+      // Unplanned: the primary region may be unreachable, so accept losing
+      // the writes it had not replicated yet
+      promoteCommand = `aws rds failover-global-cluster --global-cluster-identifier ${props.globalClusterIdentifier} --target-db-cluster-identifier ${this.cluster.attrDbClusterArn} --allow-data-loss --region ${this.region}`;
+    }
+
+    // Outputs
+    new cdk.CfnOutput(this, "RdsEndpoint", {
+      value: `${this.endpointAddress}:${cdk.Token.asString(this.endpointPort)}`,
+    });
+    new cdk.CfnOutput(this, "RdsSecretName", {
+      value: props.credentialsSecretName,
+    });
+    new cdk.CfnOutput(this, "PromoteDatabaseCommand", {
+      value: promoteCommand,
+    });
+  }
+}
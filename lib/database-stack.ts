@@ -5,86 +5,325 @@ import * as ec2 from "aws-cdk-lib/aws-ec2";
 import * as rds from "aws-cdk-lib/aws-rds";
 import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
 
+export type DatabaseEngineMode = "instance" | "aurora-serverless-v2";
+
+// "single-user" changes the Engine user's password in place; "alternating-users"
+// has the Engine log in as an app user that alternates with a clone, so the
+// previous credentials keep working until the next rotation
+export type DatabaseRotationMode = "single-user" | "alternating-users";
+
+// Characters left out of generated and rotated passwords
+const PASSWORD_EXCLUDE_CHARACTERS = '"@/\\:?#[]{}|^~;=%&+()<>';
+
 export interface DatabaseStackProps extends cdk.StackProps {
   // Network
   vpc: ec2.IVpc;
   rdsSecurityGroup: ec2.ISecurityGroup;
+  rdsProxySecurityGroup?: ec2.ISecurityGroup; // required with proxy
+  rotationSecurityGroup?: ec2.ISecurityGroup; // required with rotation
 
   // Database options
+  engineMode?: DatabaseEngineMode; // default "instance"
   databaseName?: string;
   dbSubnetSelection?: ec2.SubnetSelection;
+  deletionProtection?: boolean;
+  backupRetentionDays?: number;
+  credentialsSecretName?: string;
+  removalPolicy?: cdk.RemovalPolicy; // default DESTROY; SNAPSHOT or RETAIN for production
+
+  // "instance" mode
   instanceType?: ec2.InstanceType;
   multiAz?: boolean;
   allocatedStorageGiB?: number;
   maxAllocatedStorageGiB?: number;
-  deletionProtection?: boolean;
-  backupRetentionDays?: number;
-  credentialsSecretName?: string;
+
+  // "aurora-serverless-v2" mode
+  minCapacityAcu?: number; // default 0.5; 0 lets the cluster pause when idle
+  maxCapacityAcu?: number; // default 4
+  readers?: number; // default 0; readers in other AZs give fast failover
+
+  // RDS Proxy in front of the database; clients log in with the secret's
+  // password over TLS
+  proxy?: boolean; // default false
+  // Require IAM auth tokens at the proxy instead of passwords. Only for
+  // clients that sign tokens themselves (EngineStack dbIamAuth).
+  proxyIamAuth?: boolean; // default false
+
+  // Secrets Manager rotation of the database credentials (off when unset)
+  rotation?: DatabaseRotationMode;
+  rotationDays?: number; // default 30
+
+  // Disaster recovery: copies of the credentials secret in these regions, and
+  // (aurora-serverless-v2) the global database the cluster becomes primary of.
+  // DatabaseReplicaStack adds the standby in the other region.
+  secretReplicaRegions?: string[];
+  globalClusterIdentifier?: string;
 }
 
 /**
  * DatabaseStack
- * - Provisions an Amazon RDS PostgreSQL instance for the Fractal Engine
+ * - Provisions an Amazon RDS PostgreSQL instance, or an Aurora PostgreSQL
+ *   Serverless v2 cluster with optional readers, for the Fractal Engine
  * - Generates and stores credentials in Secrets Manager
- * - Exposes the instance and secret as public readonly properties and stack outputs
+ * - Optionally fronts it with an RDS Proxy (TLS, optionally IAM auth) in the
+ *   isolated subnets
+ * - Optionally rotates the credentials on a schedule, in place or alternating
+ *   between an app user and its clone (EngineStack creates the app user, see
+ *   DatabaseAppUser)
+ * - Optionally replicates the credentials to other regions and makes the
+ *   Aurora cluster the primary of a global database, for DatabaseReplicaStack
+ * - Exposes the instance or cluster, secret and the endpoint clients should use
+ *   (the proxy's when enabled) as public readonly properties and stack outputs
  */
 export class DatabaseStack extends cdk.Stack {
-  public readonly rdsInstance: rds.DatabaseInstance;
-  public readonly rdsSecret: secretsmanager.ISecret;
+  public readonly engineMode: DatabaseEngineMode;
+  public readonly rdsInstance?: rds.DatabaseInstance; // instance mode
+  public readonly rdsCluster?: rds.DatabaseCluster; // aurora-serverless-v2 mode
+  public readonly rdsSecret: secretsmanager.ISecret; // master user
+  // Credentials the Engine logs in with: the app user's secret with
+  // "alternating-users" rotation, otherwise rdsSecret
+  public readonly engineSecret: secretsmanager.ISecret;
+  public readonly rdsProxy?: rds.DatabaseProxy;
+  public readonly username: string;
+  public readonly credentialsSecretName: string; // of rdsSecret
+  public readonly globalCluster?: rds.CfnGlobalCluster;
+
+  // Where clients connect: the proxy when enabled, otherwise the instance or
+  // the cluster's writer endpoint
+  public readonly endpointAddress: string;
+  public readonly endpointPort: number;
 
   constructor(scope: Construct, id: string, props: DatabaseStackProps) {
     super(scope, id, props);
 
     const databaseName = props.databaseName ?? "fractal";
+    this.username = "fractal_engine";
+    this.engineMode = props.engineMode ?? "instance";
+    const removalPolicy = props.removalPolicy ?? cdk.RemovalPolicy.DESTROY;
 
-    // Credentials stored in Secrets Manager
-    const dbCredentials = rds.Credentials.fromGeneratedSecret(
-      "fractal_engine",
-      {
-        secretName:
-          props.credentialsSecretName ?? "FractalEngineRdsCredentials",
-        excludeCharacters: '"@/\\:?#[]{}|^~;=%&+()<>',
-      },
-    );
-
-    this.rdsInstance = new rds.DatabaseInstance(this, "FractalDb", {
-      vpc: props.vpc,
-      vpcSubnets: props.dbSubnetSelection ?? {
-        subnetType: ec2.SubnetType.PRIVATE_ISOLATED,
-      },
-      securityGroups: [props.rdsSecurityGroup],
-
-      engine: rds.DatabaseInstanceEngine.postgres({
-        // Keep consistent with existing EngineStack defaults
-        version: rds.PostgresEngineVersion.of("15", "15"),
-      }),
-      credentials: dbCredentials,
-      databaseName,
-
-      instanceType:
-        props.instanceType ??
-        ec2.InstanceType.of(ec2.InstanceClass.T3, ec2.InstanceSize.MICRO),
-      multiAz: props.multiAz ?? false,
-      allocatedStorage: props.allocatedStorageGiB ?? 20,
-      maxAllocatedStorage: props.maxAllocatedStorageGiB ?? 100,
-      storageType: rds.StorageType.GP3,
-
-      publiclyAccessible: false,
-      deletionProtection: props.deletionProtection ?? false,
-      removalPolicy: cdk.RemovalPolicy.DESTROY, // NOTE: adjust for production
-      cloudwatchLogsExports: ["postgresql"],
-      backupRetention: cdk.Duration.days(props.backupRetentionDays ?? 3),
+    if (props.proxyIamAuth && !props.proxy) {
+      throw new Error(`${id}: proxyIamAuth requires proxy`);
+    }
+    if (props.proxy && !props.rdsProxySecurityGroup) {
+      throw new Error(`${id}: proxy requires rdsProxySecurityGroup`);
+    }
+    if (props.rotation && !props.rotationSecurityGroup) {
+      throw new Error(`${id}: rotation requires rotationSecurityGroup`);
+    }
+    // The proxy only holds the master secret, so the Engine has to log in as
+    // that user too
+    if (props.rotation === "alternating-users" && props.proxy) {
+      throw new Error(
+        `${id}: "alternating-users" rotation is not supported with proxy`,
+      );
+    }
+    if (
+      props.globalClusterIdentifier &&
+      this.engineMode !== "aurora-serverless-v2"
+    ) {
+      throw new Error(
+        `${id}: globalClusterIdentifier requires engineMode "aurora-serverless-v2"`,
+      );
+    }
+
+    // Credentials stored in Secrets Manager, copied to any replica regions
+    this.credentialsSecretName =
+      props.credentialsSecretName ?? "FractalEngineRdsCredentials";
+    const dbCredentials = rds.Credentials.fromGeneratedSecret(this.username, {
+      secretName: this.credentialsSecretName,
+      excludeCharacters: PASSWORD_EXCLUDE_CHARACTERS,
+      replicaRegions: props.secretReplicaRegions?.map((region) => ({
+        region,
+      })),
     });
 
-    this.rdsSecret = this.rdsInstance.secret as secretsmanager.ISecret;
+    const vpcSubnets = props.dbSubnetSelection ?? {
+      subnetType: ec2.SubnetType.PRIVATE_ISOLATED,
+    };
+    // Ingress rules live in NetworkStack; keep the proxy from adding its own
+    const securityGroups = [
+      ec2.SecurityGroup.fromSecurityGroupId(
+        this,
+        "RdsSg",
+        props.rdsSecurityGroup.securityGroupId,
+        { mutable: false },
+      ),
+    ];
+
+    let database: rds.DatabaseInstance | rds.DatabaseCluster;
+    let endpoint: rds.Endpoint;
+
+    if (this.engineMode === "aurora-serverless-v2") {
+      // Readers scale with the writer, so a failover lands on a warm instance
+      this.rdsCluster = new rds.DatabaseCluster(this, "FractalDbCluster", {
+        vpc: props.vpc,
+        vpcSubnets,
+        securityGroups,
+
+        engine: rds.DatabaseClusterEngine.auroraPostgres({
+          version: rds.AuroraPostgresEngineVersion.VER_15_7,
+        }),
+        credentials: dbCredentials,
+        defaultDatabaseName: databaseName,
+
+        serverlessV2MinCapacity: props.minCapacityAcu ?? 0.5,
+        serverlessV2MaxCapacity: props.maxCapacityAcu ?? 4,
+        writer: rds.ClusterInstance.serverlessV2("Writer"),
+        readers: Array.from({ length: props.readers ?? 0 }, (_, i) =>
+          rds.ClusterInstance.serverlessV2(`Reader${i + 1}`, {
+            scaleWithWriter: true,
+          }),
+        ),
+        storageEncrypted: true,
+
+        deletionProtection: props.deletionProtection ?? false,
+        removalPolicy,
+        cloudwatchLogsExports: ["postgresql"],
+        backup: {
+          retention: cdk.Duration.days(props.backupRetentionDays ?? 3),
+        },
+      });
+      database = this.rdsCluster;
+      endpoint = this.rdsCluster.clusterEndpoint;
+
+      // Global database (optional): secondaries in other regions replicate
+      // from this cluster at the storage layer
+      if (props.globalClusterIdentifier) {
+        this.globalCluster = new rds.CfnGlobalCluster(
+          this,
+          "FractalDbGlobalCluster",
+          {
+            globalClusterIdentifier: props.globalClusterIdentifier,
+            sourceDbClusterIdentifier: this.rdsCluster.clusterIdentifier,
+            deletionProtection: props.deletionProtection ?? false,
+          },
+        );
+      }
+    } else {
+      this.rdsInstance = new rds.DatabaseInstance(this, "FractalDb", {
+        vpc: props.vpc,
+        vpcSubnets,
+        securityGroups,
+
+        engine: rds.DatabaseInstanceEngine.postgres({
+          // Keep consistent with existing EngineStack defaults
+          version: rds.PostgresEngineVersion.of("15", "15"),
+        }),
+        credentials: dbCredentials,
+        databaseName,
+
+        instanceType:
+          props.instanceType ??
+          ec2.InstanceType.of(ec2.InstanceClass.T3, ec2.InstanceSize.MICRO),
+        multiAz: props.multiAz ?? false,
+        allocatedStorage: props.allocatedStorageGiB ?? 20,
+        maxAllocatedStorage: props.maxAllocatedStorageGiB ?? 100,
+        storageType: rds.StorageType.GP3,
+
+        publiclyAccessible: false,
+        deletionProtection: props.deletionProtection ?? false,
+        removalPolicy,
+        cloudwatchLogsExports: ["postgresql"],
+        backupRetention: cdk.Duration.days(props.backupRetentionDays ?? 3),
+      });
+      database = this.rdsInstance;
+      endpoint = this.rdsInstance.instanceEndpoint;
+    }
+
+    this.rdsSecret = database.secret as secretsmanager.ISecret;
+    this.engineSecret = this.rdsSecret;
+
+    //
+    // Credential rotation (optional): a Secrets Manager hosted rotation
+    // function in the app subnets, reaching RDS through rotationSecurityGroup
+    //
+    if (props.rotation) {
+      const rotationOptions = {
+        automaticallyAfter: cdk.Duration.days(props.rotationDays ?? 30),
+        excludeCharacters: PASSWORD_EXCLUDE_CHARACTERS,
+        vpcSubnets: { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS },
+        securityGroup: ec2.SecurityGroup.fromSecurityGroupId(
+          this,
+          "RdsRotationSg",
+          (props.rotationSecurityGroup as ec2.ISecurityGroup).securityGroupId,
+          { mutable: false },
+        ),
+      };
+
+      // The master user is always rotated in place
+      database.addRotationSingleUser(rotationOptions);
+
+      if (props.rotation === "alternating-users") {
+        // EngineStack creates the app user (DatabaseAppUser) before the Engine
+        // starts. The first rotation waits a full period so it finds the user;
+        // it then sets the "_clone" user's password with the master credentials.
+        const appSecret = new rds.DatabaseSecret(this, "EngineAppSecret", {
+          username: `${this.username}_app`,
+          secretName: `${this.credentialsSecretName}-app`,
+          masterSecret: this.rdsSecret,
+          excludeCharacters: PASSWORD_EXCLUDE_CHARACTERS,
+        });
+        this.engineSecret = appSecret.attach(database);
+        database.addRotationMultiUser("EngineAppRotation", {
+          ...rotationOptions,
+          secret: this.engineSecret,
+          rotateImmediatelyOnUpdate: false,
+        });
+      }
+    }
+
+    // RDS Proxy (optional): pools Engine connections; the proxy logs in with
+    // the generated secret, clients with its password or an IAM token
+    if (props.proxy) {
+      this.rdsProxy = database.addProxy("FractalDbProxy", {
+        secrets: [this.rdsSecret],
+        vpc: props.vpc,
+        vpcSubnets,
+        securityGroups: [
+          ec2.SecurityGroup.fromSecurityGroupId(
+            this,
+            "RdsProxySg",
+            (props.rdsProxySecurityGroup as ec2.ISecurityGroup).securityGroupId,
+            { mutable: false },
+          ),
+        ],
+        iamAuth: props.proxyIamAuth ?? false,
+        requireTLS: true,
+      });
+      this.endpointAddress = this.rdsProxy.endpoint;
+      this.endpointPort = 5432;
+    } else {
+      this.endpointAddress = endpoint.hostname;
+      this.endpointPort = endpoint.port;
+    }
 
     // Outputs
     new cdk.CfnOutput(this, "RdsEndpoint", {
-      value: this.rdsInstance.instanceEndpoint.socketAddress,
+      value: endpoint.socketAddress,
     });
+    if (this.rdsCluster) {
+      new cdk.CfnOutput(this, "RdsReaderEndpoint", {
+        value: this.rdsCluster.clusterReadEndpoint.socketAddress,
+      });
+    }
+    if (this.globalCluster) {
+      new cdk.CfnOutput(this, "RdsGlobalClusterIdentifier", {
+        value: this.globalCluster.ref,
+      });
+    }
+    if (this.rdsProxy) {
+      new cdk.CfnOutput(this, "RdsProxyEndpoint", {
+        value: this.rdsProxy.endpoint,
+      });
+    }
 
     new cdk.CfnOutput(this, "RdsSecretName", {
       value: this.rdsSecret.secretName,
     });
+    if (this.engineSecret !== this.rdsSecret) {
+      new cdk.CfnOutput(this, "EngineDbSecretName", {
+        value: this.engineSecret.secretName,
+      });
+    }
   }
 }
@@ -0,0 +1,1172 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Construct } from "constructs";
+
+import * as logs from "aws-cdk-lib/aws-logs";
+import { Chain, CHAINS } from "./chain-profile";
+import { EngineSecretRef, RESERVED_ENGINE_VARIABLES } from "./engine-stack";
+import { ExistingVpcProps, VPC_ENDPOINT_NAMES } from "./network-stack";
+import {
+  GUARDRAIL_RULES,
+  GuardrailRule,
+  GuardrailSuppression,
+} from "./production-guardrails";
+
+// Valid Fargate task CPU units and the memory range (MiB) each allows
+const FARGATE_MEMORY_RANGE: Record<number, [number, number]> = {
+  256: [512, 2048],
+  512: [1024, 4096],
+  1024: [2048, 8192],
+  2048: [4096, 16384],
+  4096: [8192, 30720],
+  8192: [16384, 61440],
+  16384: [32768, 122880],
+};
+
+// Fargate capacity providers a service can be placed on
+export const FARGATE_CAPACITY_PROVIDERS = ["FARGATE", "FARGATE_SPOT"];
+
+// Slack, Teams and Chime incoming webhooks, which can't confirm an SNS
+// subscription
+const CHAT_WEBHOOK =
+  /^https:\/\/(hooks\.slack\.com|[^/]*\.webhook\.office\.com|outlook\.office\.com\/webhook|hooks\.chime\.aws)\//;
+
+export interface CapacityProviderConfig {
+  capacityProvider: "FARGATE" | "FARGATE_SPOT";
+  weight: number; // share of the tasks beyond every base
+  base?: number; // tasks placed here first; at most one provider sets it
+}
+
+// Set cidr and natGateways, or existingVpc
+export interface NetworkConfig {
+  cidr?: string;
+  natGateways?: number;
+  existingVpc?: ExistingVpcProps; // needs account and region
+}
+
+export interface DogecoinBootstrapConfig {
+  snapshotUri?: string; // s3://bucket/key
+  expectedSha256?: string;
+  recoveryPointArn?: string;
+}
+
+export interface DogecoinEc2Config {
+  instanceType?: string; // e.g. "m6i.large", default "t3.large"
+  dataVolumeSizeGiB?: number; // default 200
+}
+
+export interface DogecoinConfig {
+  cpu: number;
+  memoryMiB: number;
+  desiredCount: number; // number of nodes, each with its own datadir
+  imageTag: string;
+  computeMode?: "fargate" | "ec2"; // default "fargate"
+  ec2?: DogecoinEc2Config;
+  bootstrap?: DogecoinBootstrapConfig;
+  // "fargate" computeMode only; FARGATE launch type when unset
+  capacityProviderStrategy?: CapacityProviderConfig[];
+}
+
+export interface AuroraConfig {
+  minCapacityAcu: number; // 0 pauses when idle
+  maxCapacityAcu: number;
+  readers?: number; // default 0
+}
+
+export interface DatabaseRotationConfig {
+  mode: "single-user" | "alternating-users";
+  days?: number; // default 30
+}
+
+export interface DatabaseConfig {
+  engineMode?: "instance" | "aurora-serverless-v2"; // default "instance"
+  // "instance" mode
+  instanceType?: string; // e.g. "t3.micro"
+  multiAz?: boolean;
+  allocatedStorageGiB?: number;
+  maxAllocatedStorageGiB?: number;
+  // "aurora-serverless-v2" mode
+  aurora?: AuroraConfig;
+  backupRetentionDays: number;
+  deletionProtection: boolean;
+  proxy?: boolean; // RDS Proxy, default false
+  // Engine logs in to the proxy with IAM tokens, default false; needs an
+  // Engine image that signs them
+  proxyIamAuth?: boolean;
+  rotation?: DatabaseRotationConfig; // credentials never rotate when unset
+}
+
+export interface EngineHttpsConfig {
+  domainName: string;
+  hostedZoneId: string;
+  hostedZoneName: string;
+  certificateArn?: string; // issued via DNS validation when unset
+}
+
+export interface EngineScheduleConfig {
+  name: string;
+  expression: string; // e.g. "cron(0 22 * * ? *)"
+  minCapacity?: number;
+  maxCapacity?: number;
+}
+
+export interface EngineScalingConfig {
+  minCapacity: number;
+  maxCapacity: number;
+  targetCpuPercent?: number;
+  targetMemoryPercent?: number;
+  requestsPerTarget?: number;
+  schedules?: EngineScheduleConfig[];
+}
+
+export interface EngineWafConfig {
+  rateLimitPer5Min?: number; // per client IP, default 1000
+  managedRuleGroups?: string[]; // AWS managed rule group names
+  allowedCidrs?: string[];
+  blockedCidrs?: string[];
+  allowedCountries?: string[]; // ISO 3166-1 alpha-2
+  blockedCountries?: string[];
+}
+
+export interface EngineRuntimeConfig {
+  rpcPort?: number; // default 8891
+  corsAllowedOrigins?: string[]; // default ["*"]
+  environment?: Record<string, string>;
+  secrets?: Record<string, EngineSecretRef>;
+}
+
+export interface EngineMigrationConfig {
+  command: string[]; // e.g. ["fractal-engine", "migrate"]
+  timeoutMinutes?: number; // default 30
+}
+
+export interface EngineBlueGreenConfig {
+  trafficShift?: "all-at-once" | "linear" | "canary"; // default "all-at-once"
+  percent?: number; // linear or canary step, default 10
+  intervalMinutes?: number; // default 1 (linear) or 5 (canary)
+  terminationWaitMinutes?: number; // old tasks kept for rollback, default 0
+  testListenerPort?: number; // default 9000
+  testListenerCidrs?: string[]; // who may reach the test listener; nobody when unset
+}
+
+export interface EngineEndpointServiceConfig {
+  // IAM ARNs allowed to create an interface endpoint, e.g.
+  // "arn:aws:iam::210987654321:root"
+  allowedPrincipals: string[];
+  acceptanceRequired?: boolean; // default true
+}
+
+export interface EngineApiClientConfig {
+  name: string; // letters and digits, e.g. "Acme"
+  rateLimit?: number; // requests per second, default 10
+  burstLimit?: number; // default 20
+  quota?: { limit: number; period: "DAY" | "WEEK" | "MONTH" }; // unlimited when unset
+}
+
+export interface EngineApiGatewayConfig {
+  clients: EngineApiClientConfig[];
+  stageName?: string; // default "v1"
+  // Exactly one of lambdaFunctionArn or cognitoUserPoolArns; API keys only
+  // when unset
+  authorizer?: {
+    lambdaFunctionArn?: string;
+    cognitoUserPoolArns?: string[];
+    cacheTtlSeconds?: number; // default 300
+  };
+}
+
+export interface EngineConfig {
+  cpu: number;
+  memoryMiB: number;
+  desiredCount: number;
+  imageTag: string;
+  https?: EngineHttpsConfig;
+  scaling?: EngineScalingConfig;
+  waf?: EngineWafConfig; // no web ACL when unset
+  runtime?: EngineRuntimeConfig; // the stage's chain is always passed as CHAIN
+  capacityProviderStrategy?: CapacityProviderConfig[]; // FARGATE launch type when unset
+  migration?: EngineMigrationConfig; // no migration task when unset
+  blueGreen?: EngineBlueGreenConfig; // rolling updates with a circuit breaker when unset
+  rollbackOn5xxPerMinute?: number; // default 10
+  exposure?: "public" | "internal" | "privatelink"; // default "public"
+  // "internal" and "privatelink": networks besides the VPC that reach the ALB
+  clientCidrs?: string[];
+  endpointService?: EngineEndpointServiceConfig; // "privatelink" only
+  // "internal" or "privatelink" exposure only; no API Gateway when unset
+  apiGateway?: EngineApiGatewayConfig;
+}
+
+export interface BackupConfig {
+  dailyRetentionDays: number;
+  weeklyRetentionDays: number;
+  monthlyRetentionDays: number;
+  copyToVaultArn?: string; // cross-region copy destination
+  restoreTesting?: boolean;
+}
+
+export interface DisasterRecoveryConfig {
+  region: string; // standby region, in the same account
+  cidr?: string; // standby VPC, unless existingVpc is set
+  existingVpc?: ExistingVpcProps; // in the standby region
+  natGateways?: number; // default network.natGateways
+  engineDesiredCount?: number; // Engine tasks while on standby, default 0
+  // Standby-region certificate for engine.https; issued via DNS validation
+  // when unset
+  certificateArn?: string;
+}
+
+export interface GuardrailsConfig {
+  suppressions?: GuardrailSuppression[];
+}
+
+export interface MonitoringConfig {
+  alarmEmails?: string[];
+  alarmWebhookUrls?: string[];
+}
+
+/**
+ * DeploymentConfig
+ * - One stage (dev, testnet, mainnet, ...) from config/stages.json
+ * - Fanned out into the props of each stack by bin/deploy.ts
+ */
+export interface DeploymentConfig {
+  stage: string;
+  account?: string; // defaults to CDK_DEFAULT_ACCOUNT
+  region?: string; // defaults to CDK_DEFAULT_REGION
+  chain: Chain;
+  // Retain data and enforce the production guardrails, default false
+  production?: boolean;
+  guardrails?: GuardrailsConfig;
+  // Run Dogecoin and Engine in one ComputeStack cluster, default false
+  sharedCluster?: boolean;
+  logRetentionDays: logs.RetentionDays;
+  network: NetworkConfig;
+  dogecoin: DogecoinConfig;
+  database: DatabaseConfig;
+  engine: EngineConfig;
+  monitoring?: MonitoringConfig;
+  backup?: BackupConfig; // no BackupStack when unset
+  // Warm standby stacks in a second region; none when unset
+  disasterRecovery?: DisasterRecoveryConfig;
+}
+
+export const DEFAULT_STAGE = "testnet";
+export const DEFAULT_CONFIG_FILE = path.join(
+  __dirname,
+  "..",
+  "config",
+  "stages.json",
+);
+
+/**
+ * Loads the stage selected with `-c stage=<name>` (defaults to "testnet")
+ * from the checked-in config file, or the one given with `-c configFile=<path>`.
+ * Throws with every problem found so a bad config fails synth in one pass.
+ */
+export function loadDeploymentConfig(scope: Construct): DeploymentConfig {
+  const stage: string = scope.node.tryGetContext("stage") ?? DEFAULT_STAGE;
+  const configFile: string =
+    scope.node.tryGetContext("configFile") ?? DEFAULT_CONFIG_FILE;
+
+  let stages: Record<string, unknown>;
+  try {
+    stages = JSON.parse(fs.readFileSync(configFile, "utf8"));
+  } catch (err) {
+    throw new Error(
+      `Unable to read deployment config ${configFile}: ${(err as Error).message}`,
+    );
+  }
+
+  if (!isObject(stages) || !isObject(stages[stage])) {
+    const known = isObject(stages) ? Object.keys(stages).join(", ") : "";
+    throw new Error(
+      `Unknown stage "${stage}" in ${configFile}. Known stages: ${known || "(none)"}`,
+    );
+  }
+
+  return validateDeploymentConfig(stage, stages[stage]);
+}
+
+/**
+ * Checks a raw stage entry and returns it typed. Exported separately so the
+ * config can be validated without an App (e.g. from a pre-commit script).
+ */
+export function validateDeploymentConfig(
+  stage: string,
+  raw: unknown,
+): DeploymentConfig {
+  const errors: string[] = [];
+  const cfg = isObject(raw) ? raw : {};
+
+  optionalString(cfg, "account", errors);
+  optionalString(cfg, "region", errors);
+
+  if (!CHAINS.includes(cfg.chain as Chain)) {
+    errors.push(`chain must be one of ${CHAINS.join(", ")}`);
+  }
+
+  if (cfg.production !== undefined && typeof cfg.production !== "boolean") {
+    errors.push("production must be true or false when set");
+  }
+  if (cfg.guardrails !== undefined) {
+    const guardrails = section(cfg, "guardrails", errors);
+    if (
+      guardrails.suppressions !== undefined &&
+      !Array.isArray(guardrails.suppressions)
+    ) {
+      errors.push("guardrails.suppressions must be a list");
+    }
+    listEntries(guardrails.suppressions).forEach((raw, i) => {
+      const key = `guardrails.suppressions[${i}]`;
+      const suppression = isObject(raw) ? raw : {};
+      if (!GUARDRAIL_RULES.includes(suppression.rule as GuardrailRule)) {
+        errors.push(`${key}.rule must be one of ${GUARDRAIL_RULES.join(", ")}`);
+      }
+      requiredString(suppression, `${key}.path`, errors);
+      requiredString(suppression, `${key}.reason`, errors);
+    });
+  }
+
+  if (
+    cfg.sharedCluster !== undefined &&
+    typeof cfg.sharedCluster !== "boolean"
+  ) {
+    errors.push("sharedCluster must be true or false when set");
+  }
+
+  const retention = Object.values(logs.RetentionDays).filter(
+    (v) => typeof v === "number",
+  );
+  if (!retention.includes(cfg.logRetentionDays as number)) {
+    errors.push(
+      `logRetentionDays must be a CloudWatch Logs retention value (${retention.join(", ")})`,
+    );
+  }
+
+  const network = section(cfg, "network", errors);
+  if (network.existingVpc !== undefined) {
+    if (network.cidr !== undefined || network.natGateways !== undefined) {
+      errors.push(
+        "network.cidr and network.natGateways can't be set with network.existingVpc",
+      );
+    }
+  } else {
+    if (
+      typeof network.cidr !== "string" ||
+      !/^(\d{1,3}\.){3}\d{1,3}\/(1[6-9]|2[0-8])$/.test(network.cidr)
+    ) {
+      errors.push("network.cidr must be an IPv4 CIDR between /16 and /28");
+    }
+    integer(network, "network.natGateways", errors, 0);
+  }
+
+  const dogecoin = section(cfg, "dogecoin", errors);
+  const dogecoinOnEc2 = dogecoin.computeMode === "ec2";
+  if (
+    dogecoin.computeMode !== undefined &&
+    dogecoin.computeMode !== "fargate" &&
+    !dogecoinOnEc2
+  ) {
+    errors.push('dogecoin.computeMode must be "fargate" or "ec2"');
+  }
+  if (dogecoinOnEc2) {
+    // Container sizes on EC2 only have to fit the instance
+    integer(dogecoin, "dogecoin.cpu", errors, 128);
+    integer(dogecoin, "dogecoin.memoryMiB", errors, 512);
+    if (dogecoin.bootstrap !== undefined) {
+      errors.push('dogecoin.bootstrap requires dogecoin.computeMode "fargate"');
+    }
+    if (cfg.sharedCluster === true) {
+      errors.push('sharedCluster requires dogecoin.computeMode "fargate"');
+    }
+    if (dogecoin.capacityProviderStrategy !== undefined) {
+      errors.push(
+        'dogecoin.capacityProviderStrategy requires dogecoin.computeMode "fargate"',
+      );
+    }
+  } else {
+    fargateSize(dogecoin, "dogecoin", errors);
+  }
+  integer(dogecoin, "dogecoin.desiredCount", errors, 0);
+  capacityProviderStrategy(dogecoin, "dogecoin", errors);
+  requiredString(dogecoin, "dogecoin.imageTag", errors);
+  if (dogecoin.ec2 !== undefined) {
+    const ec2 = section(dogecoin, "ec2", errors, "dogecoin.ec2");
+    if (
+      ec2.instanceType !== undefined &&
+      (typeof ec2.instanceType !== "string" ||
+        !/^[a-z0-9-]+\.[a-z0-9]+$/.test(ec2.instanceType))
+    ) {
+      errors.push(
+        'dogecoin.ec2.instanceType must look like "m6i.large" when set',
+      );
+    }
+    optionalInteger(ec2, "dogecoin.ec2.dataVolumeSizeGiB", errors, 1, 16384);
+  }
+  if (dogecoin.bootstrap !== undefined) {
+    const bootstrap = section(
+      dogecoin,
+      "bootstrap",
+      errors,
+      "dogecoin.bootstrap",
+    );
+    if (!bootstrap.snapshotUri === !bootstrap.recoveryPointArn) {
+      errors.push(
+        "dogecoin.bootstrap must set exactly one of snapshotUri or recoveryPointArn",
+      );
+    }
+    if (
+      bootstrap.snapshotUri !== undefined &&
+      !/^[0-9a-f]{64}$/.test(String(bootstrap.expectedSha256))
+    ) {
+      errors.push(
+        "dogecoin.bootstrap.expectedSha256 must be a lowercase hex SHA-256 when snapshotUri is set",
+      );
+    }
+  }
+
+  const database = section(cfg, "database", errors);
+  const aurora = database.engineMode === "aurora-serverless-v2";
+  if (
+    database.engineMode !== undefined &&
+    database.engineMode !== "instance" &&
+    !aurora
+  ) {
+    errors.push(
+      'database.engineMode must be "instance" or "aurora-serverless-v2"',
+    );
+  }
+  if (aurora) {
+    const acu = section(database, "aurora", errors, "database.aurora");
+    for (const key of ["minCapacityAcu", "maxCapacityAcu"]) {
+      const value = acu[key];
+      // Serverless v2 capacity moves in 0.5 ACU steps
+      if (
+        typeof value !== "number" ||
+        value < 0 ||
+        value > 256 ||
+        !Number.isInteger(value * 2)
+      ) {
+        errors.push(
+          `database.aurora.${key} must be a multiple of 0.5 between 0 and 256`,
+        );
+      }
+    }
+    if (
+      (acu.maxCapacityAcu as number) < Math.max(1, acu.minCapacityAcu as number)
+    ) {
+      errors.push(
+        "database.aurora.maxCapacityAcu must be >= 1 and >= database.aurora.minCapacityAcu",
+      );
+    }
+    optionalInteger(acu, "database.aurora.readers", errors, 0, 15);
+  } else {
+    if (
+      typeof database.instanceType !== "string" ||
+      !/^[a-z0-9-]+\.[a-z0-9]+$/.test(database.instanceType)
+    ) {
+      errors.push(
+        'database.instanceType must look like "<class>.<size>", e.g. "t3.micro"',
+      );
+    }
+    boolean(database, "database.multiAz", errors);
+    integer(database, "database.allocatedStorageGiB", errors, 20);
+    integer(database, "database.maxAllocatedStorageGiB", errors, 20);
+    if (
+      (database.maxAllocatedStorageGiB as number) <
+      (database.allocatedStorageGiB as number)
+    ) {
+      errors.push(
+        "database.maxAllocatedStorageGiB must be >= database.allocatedStorageGiB",
+      );
+    }
+  }
+  integer(database, "database.backupRetentionDays", errors, 0, 35);
+  boolean(database, "database.deletionProtection", errors);
+  if (database.proxy !== undefined && typeof database.proxy !== "boolean") {
+    errors.push("database.proxy must be true or false when set");
+  }
+  if (
+    database.proxyIamAuth !== undefined &&
+    typeof database.proxyIamAuth !== "boolean"
+  ) {
+    errors.push("database.proxyIamAuth must be true or false when set");
+  } else if (database.proxyIamAuth === true && database.proxy !== true) {
+    errors.push("database.proxyIamAuth requires database.proxy");
+  }
+  if (database.rotation !== undefined) {
+    const rotation = section(database, "rotation", errors, "database.rotation");
+    if (
+      rotation.mode !== "single-user" &&
+      rotation.mode !== "alternating-users"
+    ) {
+      errors.push(
+        'database.rotation.mode must be "single-user" or "alternating-users"',
+      );
+    }
+    if (rotation.mode === "alternating-users" && database.proxy === true) {
+      errors.push(
+        'database.rotation.mode "alternating-users" cannot be combined with database.proxy',
+      );
+    }
+    optionalInteger(rotation, "database.rotation.days", errors, 1, 365);
+  }
+
+  const engine = section(cfg, "engine", errors);
+  fargateSize(engine, "engine", errors);
+  integer(engine, "engine.desiredCount", errors, 0);
+  capacityProviderStrategy(engine, "engine", errors);
+  requiredString(engine, "engine.imageTag", errors);
+  if (engine.https !== undefined) {
+    const https = section(engine, "https", errors, "engine.https");
+    requiredString(https, "engine.https.domainName", errors);
+    requiredString(https, "engine.https.hostedZoneId", errors);
+    requiredString(https, "engine.https.hostedZoneName", errors);
+    optionalString(
+      https,
+      "certificateArn",
+      errors,
+      "engine.https.certificateArn",
+    );
+  }
+  if (engine.scaling !== undefined) {
+    const scaling = section(engine, "scaling", errors, "engine.scaling");
+    integer(scaling, "engine.scaling.minCapacity", errors, 0);
+    integer(scaling, "engine.scaling.maxCapacity", errors, 1);
+    if ((scaling.maxCapacity as number) < (scaling.minCapacity as number)) {
+      errors.push(
+        "engine.scaling.maxCapacity must be >= engine.scaling.minCapacity",
+      );
+    }
+    optionalInteger(scaling, "engine.scaling.targetCpuPercent", errors, 1, 100);
+    optionalInteger(
+      scaling,
+      "engine.scaling.targetMemoryPercent",
+      errors,
+      1,
+      100,
+    );
+    optionalInteger(scaling, "engine.scaling.requestsPerTarget", errors, 1);
+    if (scaling.schedules !== undefined && !Array.isArray(scaling.schedules)) {
+      errors.push("engine.scaling.schedules must be a list");
+    }
+    listEntries(scaling.schedules).forEach((raw, i) => {
+      const key = `engine.scaling.schedules[${i}]`;
+      const schedule = isObject(raw) ? raw : {};
+      requiredString(schedule, `${key}.name`, errors);
+      if (
+        typeof schedule.expression !== "string" ||
+        !/^(cron|rate|at)\(.+\)$/.test(schedule.expression)
+      ) {
+        errors.push(
+          `${key}.expression must be a cron(), rate() or at() expression`,
+        );
+      }
+      optionalInteger(schedule, `${key}.minCapacity`, errors, 0);
+      optionalInteger(schedule, `${key}.maxCapacity`, errors, 0);
+    });
+  }
+
+  if (engine.migration !== undefined) {
+    const migration = section(engine, "migration", errors, "engine.migration");
+    const command = migration.command;
+    if (
+      !Array.isArray(command) ||
+      command.length === 0 ||
+      command.some((arg) => typeof arg !== "string")
+    ) {
+      errors.push(
+        "engine.migration.command must be a non-empty list of strings",
+      );
+    }
+    optionalInteger(
+      migration,
+      "engine.migration.timeoutMinutes",
+      errors,
+      1,
+      120,
+    );
+  }
+  optionalInteger(engine, "engine.rollbackOn5xxPerMinute", errors, 1);
+  if (engine.blueGreen !== undefined) {
+    const blueGreen = section(engine, "blueGreen", errors, "engine.blueGreen");
+    if (
+      blueGreen.trafficShift !== undefined &&
+      !["all-at-once", "linear", "canary"].includes(
+        blueGreen.trafficShift as string,
+      )
+    ) {
+      errors.push(
+        'engine.blueGreen.trafficShift must be "all-at-once", "linear" or "canary"',
+      );
+    }
+    optionalInteger(blueGreen, "engine.blueGreen.percent", errors, 1, 99);
+    optionalInteger(blueGreen, "engine.blueGreen.intervalMinutes", errors, 1);
+    optionalInteger(
+      blueGreen,
+      "engine.blueGreen.terminationWaitMinutes",
+      errors,
+      0,
+      2880,
+    );
+    optionalInteger(
+      blueGreen,
+      "engine.blueGreen.testListenerPort",
+      errors,
+      1,
+      65535,
+    );
+    if ([80, 443].includes(blueGreen.testListenerPort as number)) {
+      errors.push("engine.blueGreen.testListenerPort must not be 80 or 443");
+    }
+    stringList(blueGreen, "engine.blueGreen.testListenerCidrs", errors);
+    // ECS can't force a new deployment of a CodeDeploy service, and
+    // request-count scaling would only follow the blue target group
+    if (isObject(database.rotation)) {
+      errors.push("engine.blueGreen cannot be combined with database.rotation");
+    }
+    if (
+      isObject(engine.scaling) &&
+      engine.scaling.requestsPerTarget !== undefined
+    ) {
+      errors.push(
+        "engine.blueGreen cannot be combined with engine.scaling.requestsPerTarget",
+      );
+    }
+  }
+
+  const exposure = engine.exposure ?? "public";
+  if (!["public", "internal", "privatelink"].includes(exposure as string)) {
+    errors.push(
+      'engine.exposure must be "public", "internal" or "privatelink"',
+    );
+  }
+  stringList(engine, "engine.clientCidrs", errors);
+  for (const cidr of listEntries(engine.clientCidrs)) {
+    if (
+      typeof cidr === "string" &&
+      !/^(\d{1,3}\.){3}\d{1,3}\/([0-9]|[12][0-9]|3[0-2])$/.test(cidr)
+    ) {
+      errors.push(`engine.clientCidrs entry ${cidr} must be an IPv4 CIDR`);
+    }
+  }
+  if (network.existingVpc !== undefined) {
+    existingVpc(network, "network", errors, exposure === "public");
+  }
+  if (engine.clientCidrs !== undefined && exposure === "public") {
+    errors.push(
+      'engine.clientCidrs requires engine.exposure "internal" or "privatelink"',
+    );
+  }
+  if (engine.endpointService !== undefined) {
+    const endpointService = section(
+      engine,
+      "endpointService",
+      errors,
+      "engine.endpointService",
+    );
+    const principals = endpointService.allowedPrincipals;
+    if (
+      !Array.isArray(principals) ||
+      principals.length === 0 ||
+      principals.some(
+        (arn) =>
+          typeof arn !== "string" ||
+          !/^arn:aws[a-z-]*:iam::\d{12}:(root|role\/.+|user\/.+)$/.test(arn),
+      )
+    ) {
+      errors.push(
+        "engine.endpointService.allowedPrincipals must be a non-empty list of IAM account, role or user ARNs",
+      );
+    }
+    if (
+      endpointService.acceptanceRequired !== undefined &&
+      typeof endpointService.acceptanceRequired !== "boolean"
+    ) {
+      errors.push(
+        "engine.endpointService.acceptanceRequired must be true or false when set",
+      );
+    }
+    if (exposure !== "privatelink") {
+      errors.push(
+        'engine.endpointService requires engine.exposure "privatelink"',
+      );
+    }
+  }
+
+  if (engine.apiGateway !== undefined) {
+    const apiGateway = section(
+      engine,
+      "apiGateway",
+      errors,
+      "engine.apiGateway",
+    );
+    if (exposure === "public") {
+      errors.push(
+        'engine.apiGateway requires engine.exposure "internal" or "privatelink"',
+      );
+    }
+    const clients = apiGateway.clients;
+    if (!Array.isArray(clients) || clients.length === 0) {
+      errors.push("engine.apiGateway.clients must be a non-empty list");
+    }
+    const clientNames: unknown[] = [];
+    listEntries(clients).forEach((raw, i) => {
+      const key = `engine.apiGateway.clients[${i}]`;
+      const client = isObject(raw) ? raw : {};
+      clientNames.push(client.name);
+      if (
+        typeof client.name !== "string" ||
+        !/^[A-Za-z][A-Za-z0-9]{0,63}$/.test(client.name)
+      ) {
+        errors.push(
+          `${key}.name must start with a letter and contain only letters and digits`,
+        );
+      }
+      optionalInteger(client, `${key}.rateLimit`, errors, 1, 10000);
+      optionalInteger(client, `${key}.burstLimit`, errors, 1, 5000);
+      if (client.quota !== undefined) {
+        const quota = section(client, "quota", errors, `${key}.quota`);
+        integer(quota, `${key}.quota.limit`, errors, 1);
+        if (!["DAY", "WEEK", "MONTH"].includes(quota.period as string)) {
+          errors.push(`${key}.quota.period must be "DAY", "WEEK" or "MONTH"`);
+        }
+      }
+    });
+    if (new Set(clientNames).size !== clientNames.length) {
+      errors.push("engine.apiGateway.clients names must be unique");
+    }
+    if (
+      apiGateway.stageName !== undefined &&
+      !/^[A-Za-z0-9_-]{1,128}$/.test(String(apiGateway.stageName))
+    ) {
+      errors.push(
+        "engine.apiGateway.stageName may only contain letters, digits, - and _",
+      );
+    }
+    if (apiGateway.authorizer !== undefined) {
+      const authorizer = section(
+        apiGateway,
+        "authorizer",
+        errors,
+        "engine.apiGateway.authorizer",
+      );
+      const userPools = authorizer.cognitoUserPoolArns;
+      if (!authorizer.lambdaFunctionArn === !userPools) {
+        errors.push(
+          "engine.apiGateway.authorizer must set exactly one of lambdaFunctionArn or cognitoUserPoolArns",
+        );
+      }
+      if (
+        authorizer.lambdaFunctionArn !== undefined &&
+        !/^arn:aws[a-z-]*:lambda:[a-z0-9-]+:\d{12}:function:.+$/.test(
+          String(authorizer.lambdaFunctionArn),
+        )
+      ) {
+        errors.push(
+          "engine.apiGateway.authorizer.lambdaFunctionArn must be a Lambda function ARN",
+        );
+      }
+      if (
+        userPools !== undefined &&
+        (!Array.isArray(userPools) ||
+          userPools.length === 0 ||
+          userPools.some(
+            (arn) =>
+              typeof arn !== "string" ||
+              !/^arn:aws[a-z-]*:cognito-idp:[a-z0-9-]+:\d{12}:userpool\/.+$/.test(
+                arn,
+              ),
+          ))
+      ) {
+        errors.push(
+          "engine.apiGateway.authorizer.cognitoUserPoolArns must be a non-empty list of user pool ARNs",
+        );
+      }
+      optionalInteger(
+        authorizer,
+        "engine.apiGateway.authorizer.cacheTtlSeconds",
+        errors,
+        0,
+        3600,
+      );
+    }
+  }
+
+  if (engine.runtime !== undefined) {
+    const runtime = section(engine, "runtime", errors, "engine.runtime");
+    optionalInteger(runtime, "engine.runtime.rpcPort", errors, 1, 65535);
+    stringList(runtime, "engine.runtime.corsAllowedOrigins", errors);
+    const origins = runtime.corsAllowedOrigins as unknown[] | undefined;
+    if (Array.isArray(origins) && origins.length === 0) {
+      errors.push("engine.runtime.corsAllowedOrigins must not be empty");
+    }
+    for (const origin of listEntries(origins)) {
+      if (
+        typeof origin === "string" &&
+        origin !== "*" &&
+        !/^https?:\/\/[^/]+$/.test(origin)
+      ) {
+        errors.push(
+          `engine.runtime.corsAllowedOrigins entry ${origin} must be "*" or an origin like https://app.example.com`,
+        );
+      }
+    }
+    for (const key of ["environment", "secrets"]) {
+      if (runtime[key] === undefined) {
+        continue;
+      }
+      const entries = section(runtime, key, errors, `engine.runtime.${key}`);
+      for (const [name, value] of Object.entries(entries)) {
+        const label = `engine.runtime.${key}.${name}`;
+        if (RESERVED_ENGINE_VARIABLES.test(name)) {
+          errors.push(`${label} is set by EngineStack and can't be overridden`);
+        }
+        if (key === "environment") {
+          if (typeof value !== "string") {
+            errors.push(`${label} must be a string`);
+          }
+          continue;
+        }
+        const ref = isObject(value) ? value : {};
+        if (
+          (typeof ref.secretName === "string") ===
+          (typeof ref.ssmParameter === "string")
+        ) {
+          errors.push(
+            `${label} must set exactly one of secretName or ssmParameter`,
+          );
+        }
+        optionalString(ref, "field", errors, `${label}.field`);
+      }
+    }
+  }
+
+  if (engine.waf !== undefined) {
+    const waf = section(engine, "waf", errors, "engine.waf");
+    optionalInteger(waf, "engine.waf.rateLimitPer5Min", errors, 10, 2e9);
+    stringList(waf, "engine.waf.managedRuleGroups", errors);
+    for (const key of ["allowedCidrs", "blockedCidrs"]) {
+      stringList(waf, `engine.waf.${key}`, errors);
+      for (const cidr of listEntries(waf[key])) {
+        if (
+          typeof cidr === "string" &&
+          !/^(\d{1,3}\.){3}\d{1,3}\/([0-9]|[12][0-9]|3[0-2])$/.test(cidr)
+        ) {
+          errors.push(`engine.waf.${key} entry ${cidr} must be an IPv4 CIDR`);
+        }
+      }
+    }
+    for (const key of ["allowedCountries", "blockedCountries"]) {
+      stringList(waf, `engine.waf.${key}`, errors);
+      for (const code of listEntries(waf[key])) {
+        if (typeof code === "string" && !/^[A-Z]{2}$/.test(code)) {
+          errors.push(
+            `engine.waf.${key} entry ${code} must be an ISO 3166-1 alpha-2 code`,
+          );
+        }
+      }
+    }
+    if (
+      waf.allowedCountries !== undefined &&
+      waf.blockedCountries !== undefined
+    ) {
+      errors.push(
+        "engine.waf must set at most one of allowedCountries or blockedCountries",
+      );
+    }
+  }
+
+  if (cfg.monitoring !== undefined) {
+    const monitoring = section(cfg, "monitoring", errors);
+    stringList(monitoring, "monitoring.alarmEmails", errors);
+    stringList(monitoring, "monitoring.alarmWebhookUrls", errors);
+    for (const url of listEntries(monitoring.alarmWebhookUrls)) {
+      if (typeof url === "string" && !url.startsWith("https://")) {
+        errors.push(`monitoring.alarmWebhookUrls entry ${url} must use https`);
+      } else if (typeof url === "string" && CHAT_WEBHOOK.test(url)) {
+        errors.push(
+          `monitoring.alarmWebhookUrls entry ${url} is a chat webhook, which can't confirm an SNS subscription; use AWS Chatbot instead`,
+        );
+      }
+    }
+  }
+
+  if (cfg.backup !== undefined) {
+    const backup = section(cfg, "backup", errors);
+    integer(backup, "backup.dailyRetentionDays", errors, 1);
+    integer(backup, "backup.weeklyRetentionDays", errors, 1);
+    integer(backup, "backup.monthlyRetentionDays", errors, 1);
+    if (
+      backup.copyToVaultArn !== undefined &&
+      !/^arn:aws[a-z-]*:backup:[a-z0-9-]+:\d{12}:backup-vault:.+$/.test(
+        String(backup.copyToVaultArn),
+      )
+    ) {
+      errors.push("backup.copyToVaultArn must be a backup vault ARN");
+    }
+    if (
+      backup.restoreTesting !== undefined &&
+      typeof backup.restoreTesting !== "boolean"
+    ) {
+      errors.push("backup.restoreTesting must be true or false when set");
+    }
+  }
+
+  if (cfg.disasterRecovery !== undefined) {
+    const dr = section(cfg, "disasterRecovery", errors);
+    if (
+      typeof dr.region !== "string" ||
+      !/^[a-z]{2}(-[a-z]+)+-\d$/.test(dr.region)
+    ) {
+      errors.push(
+        'disasterRecovery.region must be an AWS region, e.g. "us-west-2"',
+      );
+    } else if (dr.region === (cfg.region ?? process.env.CDK_DEFAULT_REGION)) {
+      errors.push("disasterRecovery.region must differ from region");
+    }
+    if (dr.existingVpc !== undefined) {
+      if (dr.cidr !== undefined || dr.natGateways !== undefined) {
+        errors.push(
+          "disasterRecovery.cidr and disasterRecovery.natGateways can't be set with disasterRecovery.existingVpc",
+        );
+      }
+      existingVpc(dr, "disasterRecovery", errors, exposure === "public");
+    } else if (
+      typeof dr.cidr !== "string" ||
+      !/^(\d{1,3}\.){3}\d{1,3}\/(1[6-9]|2[0-8])$/.test(dr.cidr)
+    ) {
+      errors.push(
+        "disasterRecovery.cidr must be an IPv4 CIDR between /16 and /28",
+      );
+    }
+    optionalInteger(dr, "disasterRecovery.natGateways", errors, 0);
+    optionalInteger(dr, "disasterRecovery.engineDesiredCount", errors, 0);
+    optionalString(
+      dr,
+      "certificateArn",
+      errors,
+      "disasterRecovery.certificateArn",
+    );
+    if (dr.certificateArn !== undefined && engine.https === undefined) {
+      errors.push("disasterRecovery.certificateArn requires engine.https");
+    }
+    // EBS volumes don't replicate, and a global database can't pause
+    if (dogecoinOnEc2) {
+      errors.push('disasterRecovery requires dogecoin.computeMode "fargate"');
+    }
+    if (aurora && isObject(database.aurora)) {
+      if (database.aurora.minCapacityAcu === 0) {
+        errors.push(
+          "disasterRecovery requires database.aurora.minCapacityAcu above 0",
+        );
+      }
+    } else if (!aurora && database.backupRetentionDays === 0) {
+      errors.push(
+        "disasterRecovery requires database.backupRetentionDays above 0 for the read replica",
+      );
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid deployment config for stage "${stage}":\n` +
+        errors.map((e) => `  - ${e}`).join("\n"),
+    );
+  }
+
+  return { ...(cfg as unknown as DeploymentConfig), stage };
+}
+
+//
+// Validation helpers
+//
+type Raw = Record<string, unknown>;
+
+function isObject(value: unknown): value is Raw {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// A list field's entries; none when it isn't a list, which the caller reports
+function listEntries(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function leaf(key: string): string {
+  return key.split(".").pop() as string;
+}
+
+function section(cfg: Raw, key: string, errors: string[], label = key): Raw {
+  if (!isObject(cfg[key])) {
+    errors.push(`${label} section is missing`);
+    return {};
+  }
+  return cfg[key] as Raw;
+}
+
+function integer(
+  obj: Raw,
+  key: string,
+  errors: string[],
+  min: number,
+  max = Number.MAX_SAFE_INTEGER,
+) {
+  const value = obj[leaf(key)];
+  if (
+    !Number.isInteger(value) ||
+    (value as number) < min ||
+    (value as number) > max
+  ) {
+    errors.push(
+      max === Number.MAX_SAFE_INTEGER
+        ? `${key} must be an integer >= ${min}`
+        : `${key} must be an integer between ${min} and ${max}`,
+    );
+  }
+}
+
+function optionalInteger(
+  obj: Raw,
+  key: string,
+  errors: string[],
+  min: number,
+  max?: number,
+) {
+  if (obj[leaf(key)] !== undefined) {
+    integer(obj, key, errors, min, max);
+  }
+}
+
+function boolean(obj: Raw, key: string, errors: string[]) {
+  if (typeof obj[leaf(key)] !== "boolean") {
+    errors.push(`${key} must be true or false`);
+  }
+}
+
+function requiredString(obj: Raw, key: string, errors: string[]) {
+  const value = obj[leaf(key)];
+  if (typeof value !== "string" || value.length === 0) {
+    errors.push(`${key} must be a non-empty string`);
+  }
+}
+
+function optionalString(obj: Raw, key: string, errors: string[], label = key) {
+  if (obj[key] !== undefined && typeof obj[key] !== "string") {
+    errors.push(`${label} must be a string when set`);
+  }
+}
+
+function stringList(obj: Raw, key: string, errors: string[]) {
+  const value = obj[leaf(key)];
+  if (
+    value !== undefined &&
+    (!Array.isArray(value) || value.some((v) => typeof v !== "string"))
+  ) {
+    errors.push(`${key} must be a list of strings when set`);
+  }
+}
+
+// An internet-facing Engine ALB needs a public subnet group
+function existingVpc(
+  obj: Raw,
+  prefix: string,
+  errors: string[],
+  needsPublicSubnets: boolean,
+) {
+  const key = `${prefix}.existingVpc`;
+  const vpc = section(obj, "existingVpc", errors, key);
+  if (
+    vpc.vpcId !== undefined &&
+    !/^vpc-[0-9a-f]{8,17}$/.test(String(vpc.vpcId))
+  ) {
+    errors.push(`${key}.vpcId must be a VPC ID, e.g. "vpc-0123456789abcdef0"`);
+  }
+  optionalString(vpc, "vpcName", errors, `${key}.vpcName`);
+  if (
+    vpc.tags !== undefined &&
+    (!isObject(vpc.tags) ||
+      Object.values(vpc.tags).some((v) => typeof v !== "string"))
+  ) {
+    errors.push(`${key}.tags must map tag names to string values`);
+  }
+  if (!vpc.vpcId && !vpc.vpcName && !vpc.tags) {
+    errors.push(`${key} must set vpcId, vpcName or tags`);
+  }
+
+  const groups = section(vpc, "subnetGroups", errors, `${key}.subnetGroups`);
+  requiredString(groups, `${key}.subnetGroups.app`, errors);
+  requiredString(groups, `${key}.subnetGroups.data`, errors);
+  optionalString(groups, "public", errors, `${key}.subnetGroups.public`);
+  if (needsPublicSubnets && groups.public === undefined) {
+    errors.push(
+      `${key}.subnetGroups.public is required for engine.exposure "public"`,
+    );
+  }
+  optionalString(
+    vpc,
+    "subnetGroupNameTag",
+    errors,
+    `${key}.subnetGroupNameTag`,
+  );
+
+  stringList(vpc, `${key}.existingEndpoints`, errors);
+  for (const name of listEntries(vpc.existingEndpoints)) {
+    if (!(VPC_ENDPOINT_NAMES as readonly unknown[]).includes(name)) {
+      errors.push(
+        `${key}.existingEndpoints entry ${name} must be one of ${VPC_ENDPOINT_NAMES.join(", ")}`,
+      );
+    }
+  }
+}
+
+function capacityProviderStrategy(obj: Raw, prefix: string, errors: string[]) {
+  const key = `${prefix}.capacityProviderStrategy`;
+  const strategy = obj.capacityProviderStrategy;
+  if (strategy === undefined) {
+    return;
+  }
+  if (!Array.isArray(strategy) || strategy.length === 0) {
+    errors.push(`${key} must be a non-empty list when set`);
+    return;
+  }
+  const providers: Raw[] = strategy.map((raw) => (isObject(raw) ? raw : {}));
+  providers.forEach((provider, i) => {
+    if (
+      !FARGATE_CAPACITY_PROVIDERS.includes(provider.capacityProvider as string)
+    ) {
+      errors.push(
+        `${key}[${i}].capacityProvider must be one of ${FARGATE_CAPACITY_PROVIDERS.join(", ")}`,
+      );
+    }
+    integer(provider, `${key}[${i}].weight`, errors, 0, 1000);
+    optionalInteger(provider, `${key}[${i}].base`, errors, 0, 100000);
+  });
+  const names = providers.map((p) => p.capacityProvider);
+  if (new Set(names).size !== names.length) {
+    errors.push(`${key} lists a capacity provider more than once`);
+  }
+  if (!providers.some((p) => (p.weight as number) > 0)) {
+    errors.push(`${key} needs a provider with a weight above 0`);
+  }
+  if (providers.filter((p) => (p.base as number) > 0).length > 1) {
+    errors.push(`${key} may set base on only one provider`);
+  }
+}
+
+function fargateSize(obj: Raw, prefix: string, errors: string[]) {
+  const range = FARGATE_MEMORY_RANGE[obj.cpu as number];
+  if (!range) {
+    errors.push(
+      `${prefix}.cpu must be one of ${Object.keys(FARGATE_MEMORY_RANGE).join(", ")}`,
+    );
+    return;
+  }
+  const cpu = obj.cpu as number;
+  const memory = obj.memoryMiB as number;
+  const [min, max] = range;
+  if (!Number.isInteger(memory) || memory < min || memory > max) {
+    errors.push(
+      `${prefix}.memoryMiB must be an integer between ${min} and ${max} for cpu ${cpu}`,
+    );
+  }
+}
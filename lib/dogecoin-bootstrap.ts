@@ -0,0 +1,171 @@
+import * as path from "path";
+import * as cdk from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as efs from "aws-cdk-lib/aws-efs";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as logs from "aws-cdk-lib/aws-logs";
+import { EcsRunTask } from "./ecs-run-task";
+
+/**
+ * Where to bootstrap the chain from. Set either snapshotUri (with
+ * expectedSha256) or recoveryPointArn.
+ */
+export interface DogecoinBootstrapSource {
+  snapshotUri?: string; // s3://bucket/key of a .tar or .tar.gz of the datadir
+  expectedSha256?: string; // hex SHA-256 of the snapshot object
+  recoveryPointArn?: string; // AWS Backup recovery point of a Dogecoin EFS
+  timeout?: cdk.Duration; // default 2 hours (the maximum)
+}
+
+export interface DogecoinBootstrapProps extends DogecoinBootstrapSource {
+  cluster: ecs.ICluster;
+  vpc: ec2.IVpc;
+  vpcSubnets: ec2.SubnetSelection;
+  securityGroup: ec2.ISecurityGroup;
+  fileSystem: efs.FileSystem;
+  dataPath: string; // datadir relative to the filesystem root, e.g. "/dogecoin"
+  restorePath?: string; // datadir inside the recovery point, defaults to dataPath
+  logGroup: logs.ILogGroup;
+}
+
+/**
+ * DogecoinBootstrap
+ * - One-off Fargate task that fills an empty Dogecoin datadir from an S3
+ *   snapshot (checksum verified) or an AWS Backup recovery point
+ * - Writes a marker file so it never runs twice, and skips datadirs that
+ *   already hold chain data
+ * - Make the Dogecoin service depend on it so the node starts after it
+ */
+export class DogecoinBootstrap extends Construct {
+  constructor(scope: Construct, id: string, props: DogecoinBootstrapProps) {
+    super(scope, id);
+
+    if (!props.snapshotUri === !props.recoveryPointArn) {
+      throw new Error(
+        `${id}: set exactly one of snapshotUri or recoveryPointArn`,
+      );
+    }
+    const snapshot = props.snapshotUri
+      ? /^s3:\/\/([^/]+)\/(.+)$/.exec(props.snapshotUri)
+      : undefined;
+    if (props.snapshotUri && !snapshot) {
+      throw new Error(`${id}: snapshotUri must look like s3://bucket/key`);
+    }
+    if (snapshot && !/^[0-9a-f]{64}$/.test(props.expectedSha256 ?? "")) {
+      throw new Error(
+        `${id}: snapshotUri requires expectedSha256 (64 lowercase hex characters)`,
+      );
+    }
+
+    const taskDef = new ecs.FargateTaskDefinition(this, "TaskDef", {
+      cpu: 1024,
+      memoryLimitMiB: 2048,
+    });
+
+    // The task mounts the filesystem root so it can also reach AWS Backup's
+    // in-place restore directory next to the datadir
+    taskDef.addVolume({
+      name: "efs-root",
+      efsVolumeConfiguration: {
+        fileSystemId: props.fileSystem.fileSystemId,
+        transitEncryption: "ENABLED",
+        authorizationConfig: { iam: "ENABLED" },
+      },
+    });
+    props.fileSystem.grant(
+      taskDef.taskRole,
+      "elasticfilesystem:ClientMount",
+      "elasticfilesystem:ClientWrite",
+      "elasticfilesystem:ClientRootAccess",
+    );
+
+    const environment: Record<string, string> = {
+      FS_ROOT: "/efs",
+      DATA_DIR: `/efs${props.dataPath}`,
+      RESTORE_PATH: props.restorePath ?? props.dataPath,
+    };
+
+    if (snapshot) {
+      const [, bucket, key] = snapshot;
+      environment.SNAPSHOT_URI = props.snapshotUri as string;
+      environment.EXPECTED_SHA256 = props.expectedSha256 as string;
+      taskDef.taskRole.addToPrincipalPolicy(
+        new iam.PolicyStatement({
+          actions: ["s3:GetObject"],
+          resources: [
+            cdk.Stack.of(this).formatArn({
+              service: "s3",
+              region: "",
+              account: "",
+              resource: bucket,
+              resourceName: key,
+            }),
+          ],
+        }),
+      );
+    } else {
+      const restoreRole = new iam.Role(this, "RestoreRole", {
+        assumedBy: new iam.ServicePrincipal("backup.amazonaws.com"),
+        managedPolicies: [
+          iam.ManagedPolicy.fromAwsManagedPolicyName(
+            "service-role/AWSBackupServiceRolePolicyForRestores",
+          ),
+        ],
+      });
+      environment.RECOVERY_POINT_ARN = props.recoveryPointArn as string;
+      environment.RESTORE_ROLE_ARN = restoreRole.roleArn;
+      environment.FILE_SYSTEM_ID = props.fileSystem.fileSystemId;
+
+      taskDef.taskRole.addToPrincipalPolicy(
+        new iam.PolicyStatement({
+          actions: ["backup:StartRestoreJob"],
+          resources: [props.recoveryPointArn as string],
+        }),
+      );
+      taskDef.taskRole.addToPrincipalPolicy(
+        new iam.PolicyStatement({
+          actions: ["backup:DescribeRestoreJob"],
+          resources: ["*"],
+        }),
+      );
+      restoreRole.grantPassRole(taskDef.taskRole);
+    }
+
+    const container = taskDef.addContainer("Bootstrap", {
+      image: ecs.ContainerImage.fromAsset(
+        path.join(__dirname, "chain-bootstrap"),
+      ),
+      logging: ecs.LogDrivers.awsLogs({
+        streamPrefix: "bootstrap",
+        logGroup: props.logGroup,
+      }),
+      environment,
+      essential: true,
+    });
+    container.addMountPoints({
+      containerPath: "/efs",
+      sourceVolume: "efs-root",
+      readOnly: false,
+    });
+
+    const run = new EcsRunTask(this, "Run", {
+      cluster: props.cluster,
+      taskDefinition: taskDef,
+      containerName: container.containerName,
+      vpc: props.vpc,
+      vpcSubnets: props.vpcSubnets,
+      securityGroups: [props.securityGroup],
+      logGroup: props.logGroup,
+      logStreamPrefix: "bootstrap",
+      // The marker makes reruns no-ops, but there is no point starting one
+      runOnUpdate: false,
+      timeout: props.timeout ?? cdk.Duration.hours(2),
+    });
+
+    // Wait for mount targets before the task tries to mount
+    run.node.addDependency(props.fileSystem.mountTargetsAvailable);
+  }
+}
@@ -0,0 +1,138 @@
+import * as cdk from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+import * as autoscaling from "aws-cdk-lib/aws-autoscaling";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as iam from "aws-cdk-lib/aws-iam";
+
+export interface DogecoinEc2HostOptions {
+  instanceType?: ec2.InstanceType; // default t3.large
+  dataVolumeSizeGiB?: number; // default 200
+  dataVolumeIops?: number; // default 3000 (gp3 baseline)
+  dataVolumeThroughputMiBps?: number; // default 125 (gp3 baseline)
+}
+
+export interface DogecoinEc2HostProps extends DogecoinEc2HostOptions {
+  cluster: ecs.Cluster;
+  vpc: ec2.IVpc;
+  subnet: ec2.ISubnet; // the instance and its volume live in this subnet's AZ
+  hostPath: string; // where the data volume is mounted on the instance
+}
+
+/**
+ * DogecoinEc2Host
+ * - Single-instance Auto Scaling group registered as an ECS capacity provider
+ * - Standalone gp3 EBS data volume (retained) that the instance attaches and
+ *   mounts at boot, so chain data survives instance replacement
+ * - The instance joins the cluster even if that fails, but only advertises the
+ *   attribute in placementConstraint once the volume is mounted; the reason
+ *   for a failure goes to the console output and the system journal
+ * - Instance and volume are pinned to the AZ of the given subnet
+ */
+export class DogecoinEc2Host extends Construct {
+  public readonly capacityProvider: ecs.AsgCapacityProvider;
+  public readonly dataVolume: ec2.Volume;
+  // Keeps tasks off the instance until the data volume is mounted
+  public readonly placementConstraint: ecs.PlacementConstraint;
+
+  constructor(scope: Construct, id: string, props: DogecoinEc2HostProps) {
+    super(scope, id);
+
+    // EBS volumes live in one AZ; keep the instance next to it
+    const subnet = props.subnet;
+
+    this.dataVolume = new ec2.Volume(this, "DataVolume", {
+      availabilityZone: subnet.availabilityZone,
+      size: cdk.Size.gibibytes(props.dataVolumeSizeGiB ?? 200),
+      volumeType: ec2.EbsDeviceVolumeType.GP3,
+      iops: props.dataVolumeIops ?? 3000,
+      throughput: props.dataVolumeThroughputMiBps ?? 125,
+      encrypted: true,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    const hostSg = new ec2.SecurityGroup(this, "HostSg", {
+      vpc: props.vpc,
+      description: "Dogecoin ECS host (tasks use the Dogecoin security group)",
+      allowAllOutbound: true,
+    });
+
+    const userData = ec2.UserData.forLinux();
+    const volumeId = this.dataVolume.volumeId;
+    const region = cdk.Stack.of(this).region;
+    const attribute = "fractal.dogecoin-data";
+    this.placementConstraint = ecs.PlacementConstraint.memberOf(
+      `attribute:${attribute} == mounted`,
+    );
+    userData.addCommands(
+      "set -euo pipefail",
+      // Join the cluster first, so a failure below leaves the instance visible
+      // in ECS (with its task pending on placementConstraint) and explained
+      `echo ECS_CLUSTER=${props.cluster.clusterName} >> /etc/ecs/ecs.config`,
+      `trap 'echo "Dogecoin data volume setup failed at line $LINENO" | tee /dev/console | logger -t dogecoin-data' ERR`,
+      // The ECS-optimized AMI doesn't always ship the AWS CLI
+      "command -v aws >/dev/null || dnf install -y awscli-2",
+      'TOKEN=$(curl -sfX PUT http://169.254.169.254/latest/api/token -H "X-aws-ec2-metadata-token-ttl-seconds: 300")',
+      'INSTANCE_ID=$(curl -sf -H "X-aws-ec2-metadata-token: $TOKEN" http://169.254.169.254/latest/meta-data/instance-id)',
+      // A replaced instance may still be detaching the volume (up to 5 minutes)
+      `aws ec2 wait volume-available --region ${region} --volume-ids ${volumeId} || true`,
+      `for i in $(seq 1 30); do aws ec2 attach-volume --region ${region} --volume-id ${volumeId} --instance-id "$INSTANCE_ID" --device /dev/xvdf && break; [ "$i" -lt 30 ] || false; sleep 10; done`,
+      // Nitro instances expose EBS as NVMe, named after the volume id
+      `DEVICE=/dev/disk/by-id/nvme-Amazon_Elastic_Block_Store_$(echo ${volumeId} | tr -d -)`,
+      'for i in $(seq 1 60); do [ -e "$DEVICE" ] && break; [ -e /dev/xvdf ] && DEVICE=/dev/xvdf && break; sleep 5; done',
+      'blkid "$DEVICE" || mkfs -t xfs "$DEVICE"',
+      `mkdir -p ${props.hostPath}`,
+      `mount "$DEVICE" ${props.hostPath}`,
+      `echo "$DEVICE ${props.hostPath} xfs defaults,nofail 0 2" >> /etc/fstab`,
+      `echo 'ECS_INSTANCE_ATTRIBUTES={"${attribute}":"mounted"}' >> /etc/ecs/ecs.config`,
+    );
+
+    const asg = new autoscaling.AutoScalingGroup(this, "Asg", {
+      vpc: props.vpc,
+      vpcSubnets: { subnets: [subnet] },
+      instanceType:
+        props.instanceType ??
+        ec2.InstanceType.of(ec2.InstanceClass.T3, ec2.InstanceSize.LARGE),
+      machineImage: ecs.EcsOptimizedImage.amazonLinux2023(),
+      securityGroup: hostSg,
+      userData,
+      requireImdsv2: true,
+      minCapacity: 1,
+      maxCapacity: 1,
+      blockDevices: [
+        {
+          deviceName: "/dev/xvda",
+          volume: autoscaling.BlockDeviceVolume.ebs(30, {
+            volumeType: autoscaling.EbsDeviceVolumeType.GP3,
+            encrypted: true,
+          }),
+        },
+      ],
+    });
+    this.dataVolume.grantAttachVolume(asg.role);
+    asg.role.addToPrincipalPolicy(
+      new iam.PolicyStatement({
+        actions: ["ec2:DescribeVolumes"],
+        resources: ["*"],
+      }),
+    );
+    asg.role.addManagedPolicy(
+      iam.ManagedPolicy.fromAwsManagedPolicyName(
+        "AmazonSSMManagedInstanceCore",
+      ),
+    );
+
+    this.capacityProvider = new ecs.AsgCapacityProvider(
+      this,
+      "CapacityProvider",
+      {
+        autoScalingGroup: asg,
+        // The group is fixed at one instance; nothing for ECS to scale
+        enableManagedScaling: false,
+        enableManagedTerminationProtection: false,
+      },
+    );
+    props.cluster.addAsgCapacityProvider(this.capacityProvider);
+  }
+}
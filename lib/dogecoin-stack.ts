@@ -1,3 +1,4 @@
+import * as path from "path";
 import * as cdk from "aws-cdk-lib";
 import { Construct } from "constructs";
 
@@ -7,6 +8,23 @@ import * as logs from "aws-cdk-lib/aws-logs";
 import * as iam from "aws-cdk-lib/aws-iam";
 import * as servicediscovery from "aws-cdk-lib/aws-servicediscovery";
 import * as efs from "aws-cdk-lib/aws-efs";
+import * as cloudwatch from "aws-cdk-lib/aws-cloudwatch";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
+import {
+  Chain,
+  ChainProfile,
+  assertMatchesChainProfile,
+  chainProfile,
+} from "./chain-profile";
+import {
+  DogecoinBootstrap,
+  DogecoinBootstrapSource,
+} from "./dogecoin-bootstrap";
+import { DogecoinEc2Host, DogecoinEc2HostOptions } from "./dogecoin-ec2-host";
+import { EcsExecAccess, EcsExecAccessProps } from "./ecs-exec-access";
+import { SharedCluster } from "./compute-stack";
+
+export type DogecoinComputeMode = "fargate" | "ec2";
 
 export interface DogecoinStackProps extends cdk.StackProps {
   // Network resources from NetworkStack
@@ -18,38 +36,105 @@ export interface DogecoinStackProps extends cdk.StackProps {
   subnetSelection?: ec2.SubnetSelection; // defaults to PRIVATE_WITH_EGRESS
 
   // ECS/Service configuration
-  desiredCount?: number; // default 1
+  desiredCount?: number; // number of nodes, default 1 (0 stops the only node)
   cpu?: number; // default 512
   memoryMiB?: number; // default 1024
 
+  // "fargate" keeps chain data on EFS; "ec2" runs each node on its own ECS EC2
+  // capacity provider with a gp3 EBS data volume. Defaults to "fargate".
+  computeMode?: DogecoinComputeMode;
+  ec2Host?: DogecoinEc2HostOptions; // only used when computeMode is "ec2"
+
+  // Run in a shared cluster (ComputeStack) instead of creating one. Fargate
+  // computeMode only, since ec2 hosts add capacity providers to the cluster.
+  sharedCluster?: SharedCluster;
+  // Capacity providers of the fargate services, e.g. FARGATE_SPOT; they use
+  // the FARGATE launch type when unset
+  capacityProviderStrategies?: ecs.CapacityProviderStrategy[];
+
   // Container image override (defaults to docker.io/danielwhelansb/dogecoin)
   containerImage?: ecs.ContainerImage;
+  imageTag?: string; // default v1.14.9, ignored when containerImage is set
 
   // Service discovery
   namespaceName?: string; // defaults to "fractal.local"
   serviceName?: string; // defaults to "dogecoin"
 
-  // Dogecoin ports
-  rpcPort?: number; // default 22555
-  p2pPort?: number; // default 22556
-  zmqPort?: number; // default 28000
+  // Chain and ports, normally NetworkStack.chainProfile (defaults to mainnet)
+  chainProfile?: ChainProfile;
+
+  // Dogecoin ports; when set they must match chainProfile or synth fails
+  rpcPort?: number;
+  p2pPort?: number;
+  zmqPort?: number;
+
+  // RPC credentials (generated into Secrets Manager)
+  rpcUsername?: string; // default "fractal"
+  rpcSecretName?: string; // defaults to a CloudFormation-generated name
 
   // Extra environment for the container
   environment?: Record<string, string>;
+
+  // Logging
+  logRetention?: logs.RetentionDays; // default ONE_WEEK
+  logRemovalPolicy?: cdk.RemovalPolicy; // default DESTROY
+
+  // ECS Exec operator role and session logs
+  ecsExec?: EcsExecAccessProps;
+
+  // Sync monitoring sidecar (publishes Fractal/Dogecoin metrics)
+  syncMonitor?: boolean; // default true
+  syncLagAlarmBlocks?: number; // default 10 blocks behind headers
+  syncLagAlarmPeriod?: cdk.Duration; // default 30 minutes
+
+  // Fill an empty datadir from a snapshot before the node first starts
+  bootstrap?: DogecoinBootstrapSource;
+
+  // Disaster recovery (fargate computeMode): replicate the datadir EFS to a
+  // standby stack's file system in another region
+  replicateEfsTo?: efs.IFileSystem;
+  // This stack is that standby: its EFS is a read-only replication
+  // destination until promoted, and the promotion commands are outputs
+  standby?: boolean; // default false
 }
 
+// Namespace the sync monitor sidecar publishes to
+export const DOGECOIN_METRIC_NAMESPACE = "Fractal/Dogecoin";
+
 /**
- * DogecoinStack (ECS Fargate)
- * - Runs Dogecoin in ECS Fargate
- * - Registers the service in AWS Cloud Map (private DNS) for discovery by Engine
+ * DogecoinStack (ECS Fargate or EC2)
+ * - Runs one or more Dogecoin nodes in ECS Fargate with data on EFS, or on ECS
+ *   EC2 hosts with data on gp3 EBS volumes; every node has its own datadir
+ * - Registers each node in AWS Cloud Map (private DNS) under its own name
+ *   (dogecoin, dogecoin-1, ...) for discovery and failover by Engine
  * - Publishes container logs to CloudWatch Logs
+ * - Generates RPC credentials in Secrets Manager, shared with the Engine via rpcSecret
+ * - Health checks the node over RPC so Cloud Map only serves tasks that answer
+ * - Runs a sync monitor sidecar publishing block/header height, peers and
+ *   verification progress, with an alarm when the tip lags the headers
+ * - Optionally bootstraps the chain from an S3 snapshot or AWS Backup recovery
+ *   point with a one-off task before the service starts
+ * - ECS Exec is limited to an operator role for this cluster and every session
+ *   is logged (see EcsExecAccess)
+ * - Optionally runs in a shared cluster (see ComputeStack), with a capacity
+ *   provider strategy such as FARGATE_SPOT
+ * - Optionally replicates the datadir EFS to a warm standby stack in another
+ *   region, or is that standby
  */
 export class DogecoinStack extends cdk.Stack {
-  public readonly cluster: ecs.Cluster;
-  public readonly service: ecs.FargateService;
-  public readonly serviceDiscoveryName: string;
+  public readonly cluster: ecs.ICluster;
+  public readonly services: ecs.BaseService[]; // one per node
+  public readonly serviceDiscoveryName: string; // node 0
+  public readonly serviceDiscoveryNames: string[]; // every node, in order
+  public readonly chain: Chain;
   public readonly rpcPort: number;
   public readonly zmqPort: number;
+  public readonly rpcSecret: secretsmanager.ISecret;
+  public readonly computeMode: DogecoinComputeMode;
+  public readonly fileSystem?: efs.FileSystem; // fargate mode
+  public readonly dataVolumes: ec2.Volume[]; // ec2 mode, one per node
+  public readonly syncLagAlarm?: cloudwatch.Alarm; // not on a standby
+  public readonly ecsExec: EcsExecAccess; // the shared cluster's when set
 
   constructor(scope: Construct, id: string, props: DogecoinStackProps) {
     super(scope, id, props);
@@ -58,9 +143,46 @@ export class DogecoinStack extends cdk.Stack {
     const cpu = props.cpu ?? 512;
     const memoryMiB = props.memoryMiB ?? 1024;
 
-    const rpcPort = props.rpcPort ?? 22555;
-    const p2pPort = props.p2pPort ?? 22556;
-    const zmqPort = props.zmqPort ?? 28000;
+    this.computeMode = props.computeMode ?? "fargate";
+    const onEc2 = this.computeMode === "ec2";
+    if (onEc2 && props.bootstrap) {
+      throw new Error(`${id}: bootstrap requires computeMode "fargate"`);
+    }
+    if (onEc2 && (props.sharedCluster || props.capacityProviderStrategies)) {
+      throw new Error(
+        `${id}: sharedCluster and capacityProviderStrategies require computeMode "fargate"`,
+      );
+    }
+    if (onEc2 && (props.replicateEfsTo || props.standby)) {
+      throw new Error(
+        `${id}: replicateEfsTo and standby require computeMode "fargate"`,
+      );
+    }
+    if (props.standby && (props.replicateEfsTo || props.bootstrap)) {
+      throw new Error(
+        `${id}: a standby's datadir comes from replication; replicateEfsTo and bootstrap can't be set`,
+      );
+    }
+
+    // The sync monitor's share is carved out of the task size
+    const syncMonitor = props.syncMonitor ?? true;
+    const monitorCpu = syncMonitor ? 64 : 0;
+    const monitorMemoryMiB = syncMonitor ? 128 : 0;
+
+    // Ports come from the chain profile shared with NetworkStack's security groups
+    const profile = props.chainProfile ?? chainProfile("mainnet");
+    assertMatchesChainProfile(
+      profile,
+      {
+        chain: props.environment?.CHAIN,
+        rpcPort: props.rpcPort,
+        p2pPort: props.p2pPort,
+        zmqPort: props.zmqPort,
+      },
+      `${id} props`,
+    );
+    const { rpcPort, p2pPort, zmqPort } = profile;
+    this.chain = profile.chain;
     this.rpcPort = rpcPort;
     this.zmqPort = zmqPort;
 
@@ -69,36 +191,77 @@ export class DogecoinStack extends cdk.Stack {
     const vpcCidr = props.vpc.vpcCidrBlock;
 
     //
-    // ECS Cluster
+    // ECS Cluster: our own unless a shared one is passed in
     //
-    this.cluster = new ecs.Cluster(this, "DogecoinCluster", {
-      vpc: props.vpc,
-      containerInsights: true,
-    });
+    let ownCluster: ecs.Cluster | undefined;
+    if (props.sharedCluster) {
+      this.cluster = props.sharedCluster.cluster;
+      this.ecsExec = props.sharedCluster.ecsExec;
+    } else {
+      this.ecsExec = new EcsExecAccess(this, "EcsExec", {
+        removalPolicy: props.logRemovalPolicy,
+        ...props.ecsExec,
+      });
+      ownCluster = new ecs.Cluster(this, "DogecoinCluster", {
+        vpc: props.vpc,
+        containerInsights: true,
+        enableFargateCapacityProviders:
+          props.capacityProviderStrategies !== undefined,
+        executeCommandConfiguration: this.ecsExec.configuration,
+      });
+      this.ecsExec.allowExecInto(ownCluster);
+      this.cluster = ownCluster;
+    }
 
     const subnets = props.vpc.selectSubnets({
       subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
     });
 
-    // Storage: EFS for persistent Dogecoin data
-    const dogeEfs = new efs.FileSystem(this, "DogecoinEfs", {
-      vpc: props.vpc,
-      vpcSubnets: subnets,
-      lifecyclePolicy: efs.LifecyclePolicy.AFTER_14_DAYS,
-      performanceMode: efs.PerformanceMode.GENERAL_PURPOSE,
-      throughputMode: efs.ThroughputMode.BURSTING,
-      removalPolicy: cdk.RemovalPolicy.RETAIN,
-    });
-    // Allow NFS from Dogecoin tasks
-    dogeEfs.connections.allowDefaultPortFrom(
-      props.dogeSecurityGroup,
-      "Allow NFS from Dogecoin tasks",
-    );
-    // Access Point for the container
-    const dogeEfsAp = new efs.AccessPoint(this, "DogecoinEfsAp", {
-      fileSystem: dogeEfs,
-      path: "/dogecoin",
-      createAcl: { ownerUid: "0", ownerGid: "0", permissions: "0777" },
+    //
+    // Storage: one EFS filesystem with an access point per node (fargate); in
+    // ec2 mode each node gets its own host and EBS volume further down
+    //
+    let dogeEfs: efs.FileSystem | undefined;
+    if (!onEc2) {
+      dogeEfs = new efs.FileSystem(this, "DogecoinEfs", {
+        vpc: props.vpc,
+        vpcSubnets: subnets,
+        lifecyclePolicy: efs.LifecyclePolicy.AFTER_14_DAYS,
+        performanceMode: efs.PerformanceMode.GENERAL_PURPOSE,
+        throughputMode: efs.ThroughputMode.BURSTING,
+        removalPolicy: cdk.RemovalPolicy.RETAIN,
+        replicationConfiguration: props.replicateEfsTo
+          ? efs.ReplicationConfiguration.existingFileSystem(
+              props.replicateEfsTo,
+            )
+          : undefined,
+        // Replication only writes into a file system without protection
+        replicationOverwriteProtection: props.standby
+          ? efs.ReplicationOverwriteProtection.DISABLED
+          : undefined,
+      });
+      this.fileSystem = dogeEfs;
+      // Allow NFS from Dogecoin tasks
+      dogeEfs.connections.allowDefaultPortFrom(
+        props.dogeSecurityGroup,
+        "Allow NFS from Dogecoin tasks",
+      );
+    }
+
+    //
+    // RPC credentials: JSON secret with "username" and "password" keys
+    //
+    this.rpcSecret = new secretsmanager.Secret(this, "DogecoinRpcCredentials", {
+      secretName: props.rpcSecretName,
+      description: "Dogecoin node RPC credentials",
+      generateSecretString: {
+        secretStringTemplate: JSON.stringify({
+          username: props.rpcUsername ?? "fractal",
+        }),
+        generateStringKey: "password",
+        excludePunctuation: true,
+        passwordLength: 32,
+      },
     });
 
     //
@@ -121,6 +284,9 @@ export class DogecoinStack extends cdk.Stack {
       description: "Task role for Dogecoin node",
     });
 
+    // Allow the task to read its RPC credentials
+    this.rpcSecret.grantRead(taskRole);
+
     // Minimal SSM messages permissions on the task role for ECS Exec
     taskRole.addToPolicy(
       new iam.PolicyStatement({
@@ -138,132 +304,304 @@ export class DogecoinStack extends cdk.Stack {
       }),
     );
 
-    // Managed policy for operators to run ECS Exec against this service's tasks.
-    // Attach this policy to your human/operator IAM users or roles.
-    const ecsExecOperatorPolicy = new iam.ManagedPolicy(
-      this,
-      "EcsExecOperatorPolicy",
-      {
-        description: "Allows operators to run ECS Exec and manage SSM sessions",
-        statements: [
-          new iam.PolicyStatement({
-            actions: ["ecs:ExecuteCommand"],
-            resources: ["*"],
-          }),
+    const logGroup = new logs.LogGroup(this, "DogecoinLogs", {
+      retention: props.logRetention ?? logs.RetentionDays.ONE_WEEK,
+      removalPolicy: props.logRemovalPolicy ?? cdk.RemovalPolicy.DESTROY,
+    });
+
+    const image =
+      props.containerImage ??
+      ecs.ContainerImage.fromRegistry(
+        `docker.io/danielwhelansb/dogecoin:${props.imageTag ?? "v1.14.9"}`,
+      );
+
+    const rpcAuthSecrets = {
+      RPC_USER: ecs.Secret.fromSecretsManager(this.rpcSecret, "username"),
+      RPC_PASSWORD: ecs.Secret.fromSecretsManager(this.rpcSecret, "password"),
+    };
+
+    //
+    // Nodes: each gets its own datadir, task definition, service and Cloud Map
+    // name. Node 0 keeps the original construct ids, datadir and name.
+    //
+    const nodeCount = Math.max(desiredCount, 1);
+    const services: ecs.BaseService[] = [];
+    const discoveryNames: string[] = [];
+    const dataVolumes: ec2.Volume[] = [];
+    let previousBootstrap: DogecoinBootstrap | undefined;
+
+    for (let i = 0; i < nodeCount; i++) {
+      const suffix = i === 0 ? "" : String(i);
+      const nodeName = i === 0 ? serviceName : `${serviceName}-${i}`;
+      const dataPath = i === 0 ? "/dogecoin" : `/dogecoin-${i}`;
+
+      //
+      // Task Definition and datadir
+      //
+      let taskDef: ecs.TaskDefinition;
+      let ec2Host: DogecoinEc2Host | undefined;
+      let dogeEfsAp: efs.AccessPoint | undefined;
+
+      if (dogeEfs) {
+        taskDef = new ecs.FargateTaskDefinition(
+          this,
+          `DogecoinTaskDef${suffix}`,
+          {
+            cpu,
+            memoryLimitMiB: memoryMiB,
+            executionRole,
+            taskRole,
+          },
+        );
+
+        // Access Point for this node's datadir
+        dogeEfsAp = new efs.AccessPoint(this, `DogecoinEfsAp${suffix}`, {
+          fileSystem: dogeEfs,
+          path: dataPath,
+          createAcl: { ownerUid: "0", ownerGid: "0", permissions: "0777" },
+        });
+
+        // Grant ECS task permission to mount the EFS access point
+        executionRole.addToPolicy(
           new iam.PolicyStatement({
             actions: [
-              "ssm:StartSession",
-              "ssm:DescribeSessions",
-              "ssm:TerminateSession",
+              "elasticfilesystem:ClientMount",
+              "elasticfilesystem:ClientWrite",
+              "elasticfilesystem:DescribeMountTargets",
+              "elasticfilesystem:DescribeAccessPoints",
             ],
-            resources: ["*"],
+            resources: [dogeEfs.fileSystemArn, dogeEfsAp.accessPointArn],
           }),
-          new iam.PolicyStatement({
-            actions: ["kms:Decrypt"],
-            resources: ["*"],
-          }),
-        ],
-      },
-    );
+        );
 
-    //
-    // Task Definition
-    //
-    const taskDef = new ecs.FargateTaskDefinition(this, "DogecoinTaskDef", {
-      cpu,
-      memoryLimitMiB: memoryMiB,
-      executionRole,
-      taskRole,
-    });
+        // EFS volume for persistent blockchain data
+        taskDef.addVolume({
+          name: "dogecoin-data",
+          efsVolumeConfiguration: {
+            fileSystemId: dogeEfs.fileSystemId,
+            transitEncryption: "ENABLED",
+            authorizationConfig: {
+              accessPointId: dogeEfsAp.accessPointId,
+              iam: "ENABLED",
+            },
+          },
+        });
+      } else {
+        // Spread hosts (and their volumes) across the private subnets' AZs
+        const hostDataPath = "/data/dogecoin";
+        ec2Host = new DogecoinEc2Host(this, `Ec2Host${suffix}`, {
+          ...props.ec2Host,
+          cluster: ownCluster as ecs.Cluster,
+          vpc: props.vpc,
+          subnet: subnets.subnets[i % subnets.subnets.length],
+          hostPath: hostDataPath,
+        });
+        dataVolumes.push(ec2Host.dataVolume);
 
-    // Grant ECS task permission to mount the EFS access point
-    executionRole.addToPolicy(
-      new iam.PolicyStatement({
-        actions: [
-          "elasticfilesystem:ClientMount",
-          "elasticfilesystem:ClientWrite",
-          "elasticfilesystem:DescribeMountTargets",
-          "elasticfilesystem:DescribeAccessPoints",
-        ],
-        resources: [dogeEfs.fileSystemArn, dogeEfsAp.accessPointArn],
-      }),
-    );
+        taskDef = new ecs.Ec2TaskDefinition(
+          this,
+          `DogecoinEc2TaskDef${suffix}`,
+          {
+            // awsvpc keeps the Dogecoin security group and Cloud Map A records
+            networkMode: ecs.NetworkMode.AWS_VPC,
+            executionRole,
+            taskRole,
+          },
+        );
 
-    // EFS volume for persistent blockchain data
-    taskDef.addVolume({
-      name: "dogecoin-data",
-      efsVolumeConfiguration: {
-        fileSystemId: dogeEfs.fileSystemId,
-        transitEncryption: "ENABLED",
-        authorizationConfig: {
-          accessPointId: dogeEfsAp.accessPointId,
-          iam: "ENABLED",
-        },
-      },
-    });
+        // EBS data volume, mounted on the instance by DogecoinEc2Host
+        taskDef.addVolume({
+          name: "dogecoin-data",
+          host: { sourcePath: hostDataPath },
+        });
+      }
 
-    const logGroup = new logs.LogGroup(this, "DogecoinLogs", {
-      retention: logs.RetentionDays.ONE_WEEK,
-      removalPolicy: cdk.RemovalPolicy.DESTROY,
-    });
+      //
+      // Container
+      //
+      const container = taskDef.addContainer("Dogecoin", {
+        image,
+        cpu: cpu - monitorCpu,
+        memoryLimitMiB: memoryMiB - monitorMemoryMiB,
+        logging: ecs.LogDrivers.awsLogs({
+          streamPrefix: nodeName,
+          logGroup,
+        }),
+        // You can extend with additional env if your image supports it.
+        // CHAIN must match the chain profile.
+        environment: {
+          CHAIN: profile.chain,
+          ...props.environment,
+          // Ensure dogecoind writes data to the mounted data volume
+          DATADIR: "/data",
+        },
+        secrets: rpcAuthSecrets,
+        // Healthy once dogecoind answers RPC (it does so while still syncing)
+        healthCheck: {
+          command: [
+            "CMD-SHELL",
+            `dogecoin-cli -rpcport=${rpcPort} -rpcuser="$RPC_USER" -rpcpassword="$RPC_PASSWORD" getblockchaininfo > /dev/null || exit 1`,
+          ],
+          interval: cdk.Duration.seconds(30),
+          timeout: cdk.Duration.seconds(10),
+          retries: 5,
+          startPeriod: cdk.Duration.minutes(5),
+        },
+        essential: true,
+      });
 
-    //
-    // Container
-    //
-    const image =
-      props.containerImage ??
-      ecs.ContainerImage.fromRegistry(
-        "docker.io/danielwhelansb/dogecoin:v1.14.9",
+      // Mount the data volume for persistent blockchain data
+      container.addMountPoints({
+        containerPath: "/data",
+        sourceVolume: "dogecoin-data",
+        readOnly: false,
+      });
+      // Expose the typical Dogecoin ports
+      container.addPortMappings(
+        { containerPort: rpcPort, protocol: ecs.Protocol.TCP }, // RPC
+        { containerPort: p2pPort, protocol: ecs.Protocol.TCP }, // P2P
+        { containerPort: zmqPort, protocol: ecs.Protocol.TCP }, // ZMQ
       );
 
-    const container = taskDef.addContainer("Dogecoin", {
-      image,
-      cpu,
-      memoryLimitMiB: memoryMiB,
-      logging: ecs.LogDrivers.awsLogs({ streamPrefix: "dogecoin", logGroup }),
-      // You can extend with additional env if your image supports it:
-      // e.g., CHAIN, RPC_USER/PASSWORD, etc.
-      environment: {
-        ...props.environment,
-        // Ensure dogecoind writes data to the EBS-backed host mount
-        DATADIR: "/data",
-      },
-      essential: true,
-    });
-
-    // Mount EFS volume for persistent blockchain data
-    container.addMountPoints({
-      containerPath: "/data",
-      sourceVolume: "dogecoin-data",
-      readOnly: false,
-    });
-    // Expose the typical Dogecoin ports
-    container.addPortMappings(
-      { containerPort: rpcPort, protocol: ecs.Protocol.TCP }, // RPC
-      { containerPort: p2pPort, protocol: ecs.Protocol.TCP }, // P2P
-      { containerPort: zmqPort, protocol: ecs.Protocol.TCP }, // ZMQ
-    );
+      //
+      // Sync monitor sidecar: polls RPC over localhost and writes EMF metrics
+      //
+      if (syncMonitor) {
+        const monitor = taskDef.addContainer("SyncMonitor", {
+          image: ecs.ContainerImage.fromAsset(
+            path.join(__dirname, "sync-monitor"),
+          ),
+          cpu: monitorCpu,
+          memoryLimitMiB: monitorMemoryMiB,
+          logging: ecs.LogDrivers.awsLogs({
+            streamPrefix: "sync-monitor",
+            logGroup,
+          }),
+          environment: {
+            RPC_HOST: "127.0.0.1",
+            RPC_PORT: String(rpcPort),
+            CHAIN: profile.chain,
+            NODE: nodeName,
+            METRIC_NAMESPACE: DOGECOIN_METRIC_NAMESPACE,
+            POLL_INTERVAL_SECONDS: "60",
+          },
+          secrets: rpcAuthSecrets,
+          essential: false,
+        });
+        monitor.addContainerDependencies({
+          container,
+          condition: ecs.ContainerDependencyCondition.START,
+        });
+      }
 
-    //
-    // Fargate Service
-    //
-    this.service = new ecs.FargateService(this, "DogecoinService", {
-      cluster: this.cluster,
-      taskDefinition: taskDef,
-      desiredCount,
-      enableExecuteCommand: true,
-      securityGroups: [props.dogeSecurityGroup],
-      vpcSubnets: subnets,
-      assignPublicIp: false,
-      minHealthyPercent: 100,
-      maxHealthyPercent: 200,
-      cloudMapOptions: {
-        name: serviceName,
+      //
+      // Service: one task per node. The old task stops before its replacement
+      // starts, so two dogecoind processes never share a datadir.
+      //
+      // A task whose RPC health check fails is dropped from the node's name
+      const cloudMapOptions: ecs.CloudMapOptions = {
+        name: nodeName,
         cloudMapNamespace: props.namespace,
         dnsRecordType: servicediscovery.DnsRecordType.A,
         dnsTtl: cdk.Duration.seconds(30),
-      },
-    });
+      };
+
+      let service: ecs.BaseService;
+      if (ec2Host) {
+        service = new ecs.Ec2Service(this, `DogecoinEc2Service${suffix}`, {
+          cluster: this.cluster,
+          taskDefinition: taskDef,
+          desiredCount: desiredCount > 0 ? 1 : 0,
+          capacityProviderStrategies: [
+            {
+              capacityProvider: ec2Host.capacityProvider.capacityProviderName,
+              weight: 1,
+            },
+          ],
+          placementConstraints: [ec2Host.placementConstraint],
+          enableExecuteCommand: true,
+          securityGroups: [props.dogeSecurityGroup],
+          vpcSubnets: subnets,
+          minHealthyPercent: 0,
+          maxHealthyPercent: 100,
+          cloudMapOptions,
+        });
+      } else {
+        service = new ecs.FargateService(this, `DogecoinService${suffix}`, {
+          cluster: this.cluster,
+          taskDefinition: taskDef,
+          desiredCount: desiredCount > 0 ? 1 : 0,
+          capacityProviderStrategies: props.capacityProviderStrategies,
+          enableExecuteCommand: true,
+          securityGroups: [props.dogeSecurityGroup],
+          vpcSubnets: subnets,
+          assignPublicIp: false,
+          minHealthyPercent: 0,
+          maxHealthyPercent: 100,
+          cloudMapOptions,
+        });
+        // The strategy's providers must be associated with the cluster first
+        if (ownCluster && props.capacityProviderStrategies) {
+          service.node.addDependency(ownCluster);
+        }
+      }
+
+      // CloudFormation updates dependent services one after another, so a
+      // deploy replaces one node at a time
+      const previous = services[services.length - 1];
+      if (previous) {
+        service.node.addDependency(previous);
+      }
+      services.push(service);
+      discoveryNames.push(`${nodeName}.${namespaceName}`);
+
+      //
+      // Chain bootstrap (optional): runs once, before the node's first task.
+      // A recovery point restores the node's own datadir. Runs are sequential
+      // so only one in-place restore is in flight on the filesystem.
+      //
+      if (props.bootstrap && dogeEfs) {
+        const bootstrap = new DogecoinBootstrap(
+          this,
+          `ChainBootstrap${suffix}`,
+          {
+            ...props.bootstrap,
+            cluster: this.cluster,
+            vpc: props.vpc,
+            vpcSubnets: { subnets: subnets.subnets },
+            securityGroup: props.dogeSecurityGroup,
+            fileSystem: dogeEfs,
+            dataPath,
+            logGroup,
+          },
+        );
+        if (previousBootstrap) {
+          bootstrap.node.addDependency(previousBootstrap);
+        }
+        service.node.addDependency(bootstrap);
+        previousBootstrap = bootstrap;
+      }
+    }
+
+    this.services = services;
+    this.serviceDiscoveryNames = discoveryNames;
+    this.dataVolumes = dataVolumes;
+
+    // A standby's nodes are stopped until promotion, so it has no alarm
+    if (syncMonitor && !props.standby) {
+      // HeaderLag Minimum across nodes: fires when no node is at the tip, and
+      // when no node reports at all (stopped node or dead sidecar)
+      const period = props.syncLagAlarmPeriod ?? cdk.Duration.minutes(30);
+      this.syncLagAlarm = new cloudwatch.Alarm(this, "SyncLagAlarm", {
+        alarmDescription: `Dogecoin ${profile.chain} block tip is behind the best header`,
+        metric: this.metricSync("HeaderLag", { statistic: "Minimum" }),
+        threshold: props.syncLagAlarmBlocks ?? 10,
+        evaluationPeriods: Math.max(1, Math.round(period.toMinutes() / 5)),
+        comparisonOperator:
+          cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.BREACHING,
+      });
+    }
 
     // Full service discovery DNS name host: service.namespace
     this.serviceDiscoveryName = `${serviceName}.${namespaceName}`;
@@ -280,5 +618,60 @@ export class DogecoinStack extends cdk.Stack {
     new cdk.CfnOutput(this, "DogecoinZmqPort", {
       value: String(zmqPort),
     });
+    new cdk.CfnOutput(this, "DogecoinRpcSecretName", {
+      value: this.rpcSecret.secretName,
+    });
+    new cdk.CfnOutput(this, "DogecoinServiceDiscoveryNames", {
+      value: this.serviceDiscoveryNames.join(","),
+    });
+    // A shared cluster's ECS Exec outputs are on its own stack
+    if (!props.sharedCluster) {
+      new cdk.CfnOutput(this, "EcsExecOperatorPolicyArn", {
+        value: this.ecsExec.operatorPolicy.managedPolicyArn,
+      });
+      new cdk.CfnOutput(this, "EcsExecOperatorRoleArn", {
+        value: this.ecsExec.operatorRole.roleArn,
+      });
+      new cdk.CfnOutput(this, "EcsExecSessionLogGroup", {
+        value: this.ecsExec.logGroup.logGroupName,
+      });
+      new cdk.CfnOutput(this, "EcsExecSessionLogBucket", {
+        value: this.ecsExec.bucket.bucketName,
+      });
+    }
+    this.dataVolumes.forEach((volume, i) => {
+      new cdk.CfnOutput(this, `DogecoinDataVolumeId${i === 0 ? "" : i}`, {
+        value: volume.volumeId,
+      });
+    });
+    // Promotion, in order: make the EFS writable, then start node 0. The
+    // replication is deleted by its source file system id, looked up from
+    // this (destination) region so it works while the primary's is down.
+    if (props.standby && dogeEfs) {
+      const sourceFileSystemId = `$(aws efs describe-replication-configurations --file-system-id ${dogeEfs.fileSystemId} --query 'Replications[0].SourceFileSystemId' --output text --region ${this.region})`;
+      new cdk.CfnOutput(this, "PromoteChainDataCommand", {
+        value: `aws efs delete-replication-configuration --source-file-system-id ${sourceFileSystemId} --region ${this.region}`,
+      });
+      new cdk.CfnOutput(this, "StartDogecoinCommand", {
+        value: `aws ecs update-service --cluster ${this.cluster.clusterName} --service ${services[0].serviceName} --desired-count 1 --region ${this.region}`,
+      });
+    }
+  }
+
+  /**
+   * A metric published by the sync monitor sidecar: BlockHeight, HeaderHeight,
+   * HeaderLag, PeerCount, VerificationProgress, InitialBlockDownload or RpcReachable.
+   */
+  public metricSync(
+    metricName: string,
+    props?: cloudwatch.MetricOptions,
+  ): cloudwatch.Metric {
+    return new cloudwatch.Metric({
+      namespace: DOGECOIN_METRIC_NAMESPACE,
+      metricName,
+      dimensionsMap: { Chain: this.chain },
+      period: cdk.Duration.minutes(5),
+      ...props,
+    });
   }
 }
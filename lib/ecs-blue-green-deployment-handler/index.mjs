@@ -0,0 +1,94 @@
+// Custom resource handlers for EcsBlueGreenDeployment
+// (lib/ecs-blue-green-deployment.ts). onEvent starts a CodeDeploy blue/green
+// deployment when the task definition changes; isComplete polls it and fails
+// the stack update if CodeDeploy stopped it or rolled it back. Runs on the
+// Lambda Node.js runtime, which bundles the AWS SDK v3.
+import {
+  CodeDeployClient,
+  CreateDeploymentCommand,
+  GetDeploymentCommand,
+} from "@aws-sdk/client-codedeploy";
+import { DescribeServicesCommand, ECSClient } from "@aws-sdk/client-ecs";
+
+const codedeploy = new CodeDeployClient({});
+const ecs = new ECSClient({});
+
+// Physical id when there was nothing to deploy
+const NO_DEPLOYMENT = "none";
+
+export async function onEvent(event) {
+  // A new service already starts on its task definition
+  if (event.RequestType !== "Update") {
+    return { PhysicalResourceId: event.PhysicalResourceId ?? NO_DEPLOYMENT };
+  }
+
+  const props = event.ResourceProperties;
+  // e.g. CloudFormation rolling back after CodeDeploy already did
+  const { services } = await ecs.send(
+    new DescribeServicesCommand({
+      cluster: props.Cluster,
+      services: [props.Service],
+    }),
+  );
+  if (services?.[0]?.taskDefinition === props.TaskDefinition) {
+    console.log(`${props.Service} already runs ${props.TaskDefinition}`);
+    return { PhysicalResourceId: NO_DEPLOYMENT };
+  }
+
+  const appSpec = {
+    version: "0.0",
+    Resources: [
+      {
+        TargetService: {
+          Type: "AWS::ECS::Service",
+          Properties: {
+            TaskDefinition: props.TaskDefinition,
+            LoadBalancerInfo: {
+              ContainerName: props.ContainerName,
+              ContainerPort: Number(props.ContainerPort),
+            },
+          },
+        },
+      },
+    ],
+  };
+  const { deploymentId } = await codedeploy.send(
+    new CreateDeploymentCommand({
+      applicationName: props.ApplicationName,
+      deploymentGroupName: props.DeploymentGroupName,
+      description: `Stack update to ${props.TaskDefinition}`,
+      revision: {
+        revisionType: "AppSpecContent",
+        appSpecContent: { content: JSON.stringify(appSpec) },
+      },
+    }),
+  );
+  console.log(`Started ${deploymentId}`);
+  return { PhysicalResourceId: deploymentId };
+}
+
+export async function isComplete(event) {
+  const deploymentId = event.PhysicalResourceId;
+  if (event.RequestType !== "Update" || deploymentId === NO_DEPLOYMENT) {
+    return { IsComplete: true };
+  }
+
+  const { deploymentInfo } = await codedeploy.send(
+    new GetDeploymentCommand({ deploymentId }),
+  );
+  const status = deploymentInfo?.status;
+  if (status === "Succeeded") {
+    return { IsComplete: true, Data: { DeploymentId: deploymentId } };
+  }
+  if (status !== "Failed" && status !== "Stopped") {
+    return { IsComplete: false };
+  }
+
+  const error = deploymentInfo.errorInformation;
+  const rollback = deploymentInfo.rollbackInfo?.rollbackMessage;
+  throw new Error(
+    `Deployment ${deploymentId} ${status.toLowerCase()}: ` +
+      `${error ? `${error.code}: ${error.message}` : "unknown reason"}` +
+      (rollback ? ` (${rollback})` : ""),
+  );
+}
@@ -0,0 +1,126 @@
+import * as path from "path";
+import * as cdk from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+import * as codedeploy from "aws-cdk-lib/aws-codedeploy";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as lambda from "aws-cdk-lib/aws-lambda";
+import * as cr from "aws-cdk-lib/custom-resources";
+
+export interface EcsBlueGreenDeploymentProps {
+  // Service with the CODE_DEPLOY deployment controller
+  service: ecs.BaseService;
+  deploymentGroup: codedeploy.IEcsDeploymentGroup;
+  // Deployed whenever its revision changes
+  taskDefinition: ecs.TaskDefinition;
+  // Container and port registered with the target groups
+  containerName: string;
+  containerPort: number;
+
+  timeout?: cdk.Duration; // default 1 hour, at most 2 hours
+}
+
+/**
+ * EcsBlueGreenDeployment
+ * - Custom resource that rolls a CODE_DEPLOY service to a new task definition
+ *   revision, which CloudFormation can't do on its own
+ * - Points the service at the task definition's family instead of a revision,
+ *   so new revisions never change the service and CloudFormation leaves it
+ *   alone
+ * - Starts a CodeDeploy deployment on every stack update that changes the
+ *   revision and waits for it; if CodeDeploy stops it or rolls it back, the
+ *   stack update fails and rolls back too
+ */
+export class EcsBlueGreenDeployment extends Construct {
+  public readonly resource: cdk.CustomResource;
+
+  constructor(
+    scope: Construct,
+    id: string,
+    props: EcsBlueGreenDeploymentProps,
+  ) {
+    super(scope, id);
+
+    const code = lambda.Code.fromAsset(
+      path.join(__dirname, "ecs-blue-green-deployment-handler"),
+    );
+
+    const onEventHandler = new lambda.Function(this, "OnEvent", {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: "index.onEvent",
+      code,
+      timeout: cdk.Duration.minutes(1),
+      description: "Starts a CodeDeploy blue/green deployment",
+    });
+    const isCompleteHandler = new lambda.Function(this, "IsComplete", {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: "index.isComplete",
+      code,
+      timeout: cdk.Duration.minutes(1),
+      description: "Waits for a CodeDeploy blue/green deployment",
+    });
+
+    const { application, deploymentConfig } = props.deploymentGroup;
+    onEventHandler.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["ecs:DescribeServices"],
+        resources: [props.service.serviceArn],
+      }),
+    );
+    onEventHandler.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["codedeploy:CreateDeployment"],
+        resources: [props.deploymentGroup.deploymentGroupArn],
+      }),
+    );
+    onEventHandler.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: [
+          "codedeploy:GetApplicationRevision",
+          "codedeploy:RegisterApplicationRevision",
+        ],
+        resources: [application.applicationArn],
+      }),
+    );
+    onEventHandler.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["codedeploy:GetDeploymentConfig"],
+        resources: [deploymentConfig.deploymentConfigArn],
+      }),
+    );
+    isCompleteHandler.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["codedeploy:GetDeployment"],
+        resources: [props.deploymentGroup.deploymentGroupArn],
+      }),
+    );
+
+    const provider = new cr.Provider(this, "Provider", {
+      onEventHandler,
+      isCompleteHandler,
+      queryInterval: cdk.Duration.seconds(30),
+      totalTimeout: props.timeout ?? cdk.Duration.hours(1),
+    });
+
+    this.resource = new cdk.CustomResource(this, "Resource", {
+      serviceToken: provider.serviceToken,
+      resourceType: "Custom::EcsBlueGreenDeployment",
+      properties: {
+        Cluster: props.service.cluster.clusterArn,
+        Service: props.service.serviceArn,
+        ApplicationName: application.applicationName,
+        DeploymentGroupName: props.deploymentGroup.deploymentGroupName,
+        TaskDefinition: props.taskDefinition.taskDefinitionArn,
+        ContainerName: props.containerName,
+        ContainerPort: String(props.containerPort),
+      },
+    });
+    this.resource.node.addDependency(props.deploymentGroup);
+
+    // A new service starts on the family's latest revision, so it must exist
+    const service = props.service.node.defaultChild as ecs.CfnService;
+    service.taskDefinition = props.taskDefinition.family;
+    service.node.addDependency(props.taskDefinition);
+  }
+}
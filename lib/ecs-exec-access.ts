@@ -0,0 +1,137 @@
+import * as cdk from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as kms from "aws-cdk-lib/aws-kms";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as s3 from "aws-cdk-lib/aws-s3";
+
+export interface EcsExecAccessProps {
+  // Who may assume the operator role; defaults to any principal in this
+  // account that its own IAM policies allow
+  operatorPrincipal?: iam.IPrincipal;
+  requireMfa?: boolean; // default true
+  maxSessionDuration?: cdk.Duration; // default 1 hour
+
+  // Session logs
+  logRetention?: logs.RetentionDays; // default ONE_YEAR
+  removalPolicy?: cdk.RemovalPolicy; // default RETAIN
+}
+
+/**
+ * EcsExecAccess
+ * - KMS key, CloudWatch log group and S3 bucket that record every ECS Exec
+ *   session; pass `configuration` as the cluster's executeCommandConfiguration
+ * - Operator managed policy and an assumable operator role (MFA required by
+ *   default), scoped with allowExecInto() to the tasks of specific clusters
+ */
+export class EcsExecAccess extends Construct {
+  public readonly key: kms.Key;
+  public readonly logGroup: logs.LogGroup;
+  public readonly bucket: s3.Bucket;
+  public readonly configuration: ecs.ExecuteCommandConfiguration;
+
+  public readonly operatorPolicy: iam.ManagedPolicy;
+  public readonly operatorRole: iam.Role;
+
+  constructor(scope: Construct, id: string, props: EcsExecAccessProps = {}) {
+    super(scope, id);
+
+    const removalPolicy = props.removalPolicy ?? cdk.RemovalPolicy.RETAIN;
+
+    //
+    // Session encryption and logging
+    //
+    this.key = new kms.Key(this, "Key", {
+      description: "Encrypts ECS Exec sessions and their logs",
+      enableKeyRotation: true,
+      removalPolicy,
+    });
+
+    this.logGroup = new logs.LogGroup(this, "SessionLogs", {
+      retention: props.logRetention ?? logs.RetentionDays.ONE_YEAR,
+      encryptionKey: this.key,
+      removalPolicy,
+    });
+
+    this.bucket = new s3.Bucket(this, "SessionLogBucket", {
+      encryption: s3.BucketEncryption.KMS,
+      encryptionKey: this.key,
+      bucketKeyEnabled: true,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      enforceSSL: true,
+      removalPolicy,
+      autoDeleteObjects: removalPolicy === cdk.RemovalPolicy.DESTROY,
+    });
+
+    this.configuration = {
+      kmsKey: this.key,
+      logging: ecs.ExecuteCommandLogging.OVERRIDE,
+      logConfiguration: {
+        cloudWatchLogGroup: this.logGroup,
+        cloudWatchEncryptionEnabled: true,
+        s3Bucket: this.bucket,
+        s3EncryptionEnabled: true,
+        s3KeyPrefix: "exec-sessions",
+      },
+    };
+
+    //
+    // Operator access
+    //
+    this.operatorPolicy = new iam.ManagedPolicy(this, "OperatorPolicy", {
+      description:
+        "Allows operators to run ECS Exec against this stack's tasks",
+      statements: [
+        new iam.PolicyStatement({
+          actions: ["kms:Decrypt", "kms:GenerateDataKey"],
+          resources: [this.key.keyArn],
+        }),
+      ],
+    });
+
+    let principal =
+      props.operatorPrincipal ??
+      new iam.AccountPrincipal(cdk.Stack.of(this).account);
+    if (props.requireMfa ?? true) {
+      principal = new iam.PrincipalWithConditions(principal, {
+        Bool: { "aws:MultiFactorAuthPresent": "true" },
+        NumericLessThan: { "aws:MultiFactorAuthAge": "3600" },
+      });
+    }
+
+    this.operatorRole = new iam.Role(this, "OperatorRole", {
+      assumedBy: principal,
+      description: "Operators assume this role to run ECS Exec",
+      maxSessionDuration: props.maxSessionDuration ?? cdk.Duration.hours(1),
+      managedPolicies: [this.operatorPolicy],
+    });
+  }
+
+  /**
+   * Lets operators exec into, list and describe the tasks of `cluster`.
+   */
+  public allowExecInto(cluster: ecs.ICluster) {
+    const onCluster = { ArnEquals: { "ecs:cluster": cluster.clusterArn } };
+    this.operatorPolicy.addStatements(
+      new iam.PolicyStatement({
+        actions: ["ecs:ExecuteCommand"],
+        resources: [
+          cluster.clusterArn,
+          cdk.Stack.of(this).formatArn({
+            service: "ecs",
+            resource: "task",
+            resourceName: `${cluster.clusterName}/*`,
+          }),
+        ],
+        conditions: onCluster,
+      }),
+      new iam.PolicyStatement({
+        actions: ["ecs:DescribeTasks", "ecs:ListTasks"],
+        resources: ["*"],
+        conditions: onCluster,
+      }),
+    );
+  }
+}
@@ -0,0 +1,159 @@
+// Custom resource handlers for EcsRunTask (lib/ecs-run-task.ts).
+// onEvent starts the task; isComplete polls until it stops and fails the
+// deployment with the container's exit code and last log lines if it didn't
+// exit 0. Deleting the resource, including on rollback after a timeout, stops
+// the task if it is still running. Runs on the Lambda Node.js runtime, which
+// bundles the AWS SDK v3.
+import {
+  DescribeTasksCommand,
+  ECSClient,
+  RunTaskCommand,
+  StopTaskCommand,
+} from "@aws-sdk/client-ecs";
+import {
+  CloudWatchLogsClient,
+  GetLogEventsCommand,
+} from "@aws-sdk/client-cloudwatch-logs";
+
+const ecs = new ECSClient({});
+const logs = new CloudWatchLogsClient({});
+
+const LOG_LINES = 20;
+
+function skip(event) {
+  if (event.RequestType !== "Update") {
+    return event.RequestType === "Delete";
+  }
+  const props = event.ResourceProperties;
+  // With a trigger, other changes (e.g. a new task definition revision for
+  // new environment variables) don't run the task again
+  return (
+    props.RunOnUpdate !== "true" ||
+    (props.Trigger !== undefined &&
+      props.Trigger === event.OldResourceProperties?.Trigger)
+  );
+}
+
+export async function onEvent(event) {
+  if (event.RequestType === "Delete") {
+    await stopTask(event);
+  }
+  if (skip(event)) {
+    return { PhysicalResourceId: event.PhysicalResourceId };
+  }
+
+  const props = event.ResourceProperties;
+  const { tasks, failures } = await ecs.send(
+    new RunTaskCommand({
+      cluster: props.Cluster,
+      taskDefinition: props.TaskDefinition,
+      count: 1,
+      launchType: props.LaunchType,
+      // Custom resource properties arrive as strings
+      capacityProviderStrategy: props.CapacityProviderStrategy?.map((s) => ({
+        capacityProvider: s.CapacityProvider,
+        weight: s.Weight === undefined ? undefined : Number(s.Weight),
+        base: s.Base === undefined ? undefined : Number(s.Base),
+      })),
+      networkConfiguration: props.Subnets
+        ? {
+            awsvpcConfiguration: {
+              subnets: props.Subnets,
+              securityGroups: props.SecurityGroups,
+              assignPublicIp: "DISABLED",
+            },
+          }
+        : undefined,
+      startedBy: "cloudformation",
+    }),
+  );
+
+  if (!tasks || tasks.length === 0) {
+    throw new Error(`RunTask failed: ${JSON.stringify(failures ?? [])}`);
+  }
+  console.log(`Started ${tasks[0].taskArn}`);
+  return { PhysicalResourceId: tasks[0].taskArn };
+}
+
+export async function isComplete(event) {
+  if (skip(event)) {
+    return { IsComplete: true };
+  }
+
+  const props = event.ResourceProperties;
+  const taskArn = event.PhysicalResourceId;
+  const { tasks } = await ecs.send(
+    new DescribeTasksCommand({ cluster: props.Cluster, tasks: [taskArn] }),
+  );
+  const task = tasks?.[0];
+  if (!task) {
+    throw new Error(`Task ${taskArn} not found`);
+  }
+  if (task.lastStatus !== "STOPPED") {
+    return { IsComplete: false };
+  }
+
+  const taskId = taskArn.split("/").pop();
+  const container = task.containers?.find(
+    (c) => c.name === props.ContainerName,
+  );
+  const exitCode = container?.exitCode;
+  if (exitCode === 0) {
+    return {
+      IsComplete: true,
+      Data: { TaskArn: taskArn, ExitCode: "0" },
+    };
+  }
+
+  const reason = container?.reason ?? task.stoppedReason ?? "unknown reason";
+  const tail = await logTail(props, taskId);
+  throw new Error(
+    `Task ${taskId} failed: ${props.ContainerName} exited with ` +
+      `${exitCode ?? "no exit code"} (${reason}).` +
+      (tail ? ` Last log lines:\n${tail}` : ""),
+  );
+}
+
+// The physical id is the task's ARN once it started
+async function stopTask(event) {
+  const taskArn = event.PhysicalResourceId;
+  if (!/^arn:[^:]+:ecs:.*:task\//.test(taskArn ?? "")) {
+    return;
+  }
+  try {
+    await ecs.send(
+      new StopTaskCommand({
+        cluster: event.ResourceProperties.Cluster,
+        task: taskArn,
+        reason: "Custom resource deleted",
+      }),
+    );
+    console.log(`Stopped ${taskArn}`);
+  } catch (err) {
+    // Long stopped tasks are forgotten by ECS
+    console.log(`Could not stop ${taskArn}: ${err.message}`);
+  }
+}
+
+async function logTail(props, taskId) {
+  if (!props.LogGroupName) {
+    return "";
+  }
+  try {
+    const { events } = await logs.send(
+      new GetLogEventsCommand({
+        logGroupName: props.LogGroupName,
+        logStreamName: `${props.LogStreamPrefix}/${props.ContainerName}/${taskId}`,
+        limit: LOG_LINES,
+        startFromHead: false,
+      }),
+    );
+    // CloudFormation truncates long status reasons; keep the end of the log
+    return (events ?? [])
+      .map((e) => e.message)
+      .join("\n")
+      .slice(-2000);
+  } catch (err) {
+    return `(could not read logs: ${err.message})`;
+  }
+}
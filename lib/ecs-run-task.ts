@@ -0,0 +1,159 @@
+import * as path from "path";
+import * as cdk from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as lambda from "aws-cdk-lib/aws-lambda";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as cr from "aws-cdk-lib/custom-resources";
+
+export interface EcsRunTaskProps {
+  cluster: ecs.ICluster;
+  taskDefinition: ecs.TaskDefinition;
+  // Container whose exit code decides success
+  containerName: string;
+  // e.g. the service's; the FARGATE or EC2 launch type (whichever the task
+  // definition is for) when unset
+  capacityProviderStrategies?: ecs.CapacityProviderStrategy[];
+
+  // Subnets and security groups of awsvpc tasks; unused otherwise
+  vpc: ec2.IVpc;
+  vpcSubnets?: ec2.SubnetSelection; // defaults to PRIVATE_WITH_EGRESS
+  securityGroups: ec2.ISecurityGroup[];
+
+  // Where the container logs go, so failures can quote them
+  logGroup?: logs.ILogGroup;
+  logStreamPrefix?: string;
+
+  // Run again on stack updates that change trigger, or any property when
+  // trigger is unset. When false the task only runs on create. Defaults to
+  // true.
+  runOnUpdate?: boolean;
+  trigger?: string;
+
+  timeout?: cdk.Duration; // default 1 hour, at most 2 hours
+}
+
+/**
+ * EcsRunTask
+ * - Custom resource that runs an ECS task once and waits for it to stop
+ * - Succeeds only if the container exits 0; otherwise the deployment fails with
+ *   the exit code, stop reason and the last log lines
+ * - Stops the task when the resource is deleted, e.g. on rollback after a
+ *   timeout, so a retry never runs next to it
+ * - Make other resources depend on it to gate them on the task
+ */
+export class EcsRunTask extends Construct {
+  public readonly resource: cdk.CustomResource;
+
+  constructor(scope: Construct, id: string, props: EcsRunTaskProps) {
+    super(scope, id);
+
+    const code = lambda.Code.fromAsset(
+      path.join(__dirname, "ecs-run-task-handler"),
+    );
+
+    const onEventHandler = new lambda.Function(this, "OnEvent", {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: "index.onEvent",
+      code,
+      timeout: cdk.Duration.minutes(1),
+      description: "Starts a one-off ECS task",
+    });
+    const isCompleteHandler = new lambda.Function(this, "IsComplete", {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: "index.isComplete",
+      code,
+      timeout: cdk.Duration.minutes(1),
+      description: "Waits for a one-off ECS task to stop",
+    });
+
+    onEventHandler.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["ecs:RunTask"],
+        resources: [props.taskDefinition.taskDefinitionArn],
+        conditions: {
+          ArnEquals: { "ecs:cluster": props.cluster.clusterArn },
+        },
+      }),
+    );
+    onEventHandler.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["ecs:StopTask"],
+        resources: ["*"],
+        conditions: {
+          ArnEquals: { "ecs:cluster": props.cluster.clusterArn },
+        },
+      }),
+    );
+    const passRoles = [props.taskDefinition.taskRole];
+    if (props.taskDefinition.executionRole) {
+      passRoles.push(props.taskDefinition.executionRole);
+    }
+    for (const role of passRoles) {
+      role.grantPassRole(onEventHandler.grantPrincipal);
+    }
+
+    isCompleteHandler.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["ecs:DescribeTasks"],
+        resources: ["*"],
+        conditions: {
+          ArnEquals: { "ecs:cluster": props.cluster.clusterArn },
+        },
+      }),
+    );
+    if (props.logGroup) {
+      isCompleteHandler.addToRolePolicy(
+        new iam.PolicyStatement({
+          actions: ["logs:GetLogEvents"],
+          resources: [`${props.logGroup.logGroupArn}:log-stream:*`],
+        }),
+      );
+    }
+
+    const provider = new cr.Provider(this, "Provider", {
+      onEventHandler,
+      isCompleteHandler,
+      queryInterval: cdk.Duration.seconds(30),
+      totalTimeout: props.timeout ?? cdk.Duration.hours(1),
+    });
+
+    const awsVpc = props.taskDefinition.networkMode === ecs.NetworkMode.AWS_VPC;
+    const subnets = props.vpc.selectSubnets(
+      props.vpcSubnets ?? { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS },
+    );
+
+    this.resource = new cdk.CustomResource(this, "Resource", {
+      serviceToken: provider.serviceToken,
+      resourceType: "Custom::EcsRunTask",
+      properties: {
+        Cluster: props.cluster.clusterArn,
+        TaskDefinition: props.taskDefinition.taskDefinitionArn,
+        ContainerName: props.containerName,
+        LaunchType: props.capacityProviderStrategies
+          ? undefined
+          : props.taskDefinition.isFargateCompatible
+            ? "FARGATE"
+            : "EC2",
+        CapacityProviderStrategy: props.capacityProviderStrategies?.map(
+          (strategy) => ({
+            CapacityProvider: strategy.capacityProvider,
+            Weight: strategy.weight,
+            Base: strategy.base,
+          }),
+        ),
+        Subnets: awsVpc ? subnets.subnetIds : undefined,
+        SecurityGroups: awsVpc
+          ? props.securityGroups.map((sg) => sg.securityGroupId)
+          : undefined,
+        LogGroupName: props.logGroup?.logGroupName,
+        LogStreamPrefix: props.logStreamPrefix,
+        RunOnUpdate: String(props.runOnUpdate ?? true),
+        Trigger: props.trigger,
+      },
+    });
+  }
+}
@@ -0,0 +1,201 @@
+import * as cdk from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+import * as apigw from "aws-cdk-lib/aws-apigateway";
+import * as cognito from "aws-cdk-lib/aws-cognito";
+import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import * as lambda from "aws-cdk-lib/aws-lambda";
+import * as logs from "aws-cdk-lib/aws-logs";
+
+export interface EngineApiClient {
+  // Letters and digits; names the client's API key, usage plan and output
+  name: string;
+  rateLimit?: number; // steady-state requests per second, default 10
+  burstLimit?: number; // default 20
+  quota?: apigw.QuotaSettings; // unlimited when unset
+}
+
+// Set exactly one. REST APIs (the only kind with API keys and usage plans)
+// validate other OIDC providers' JWTs with a Lambda authorizer.
+export interface EngineApiAuthorizer {
+  // TOKEN authorizer reading the Authorization header
+  lambdaFunctionArn?: string;
+  cognitoUserPoolArns?: string[];
+  resultsCacheTtl?: cdk.Duration; // default 5 minutes
+}
+
+export interface EngineApiGatewayOptions {
+  clients: EngineApiClient[];
+  stageName?: string; // default "v1"
+  authorizer?: EngineApiAuthorizer; // API keys only when unset
+  logRetention?: logs.RetentionDays; // default ONE_MONTH
+}
+
+export interface EngineApiGatewayProps extends EngineApiGatewayOptions {
+  // Internal NLB passing through to the Engine ALB
+  loadBalancer: elbv2.INetworkLoadBalancer;
+  // The integration's URL up to the path, e.g. https://engine.example.com;
+  // its host is sent as Host and checked against the ALB's certificate
+  targetUrl: string;
+  logRemovalPolicy?: cdk.RemovalPolicy; // default DESTROY
+}
+
+/**
+ * EngineApiGateway
+ * - Regional REST API proxying every path and method to the Engine through a
+ *   VPC link to an internal NLB, so the ALB stays off the internet
+ * - Every request needs an API key; each client gets its own key and usage
+ *   plan with throttling and an optional quota
+ * - Optionally checks callers with a Lambda or Cognito user pool authorizer
+ *   as well
+ * - JSON access logs with the API key id of every request, for per-client
+ *   reporting and billing
+ */
+export class EngineApiGateway extends Construct {
+  public readonly api: apigw.RestApi;
+  public readonly logGroup: logs.LogGroup;
+  public readonly apiKeys: Record<string, apigw.IApiKey>; // by client name
+  public readonly usagePlans: Record<string, apigw.UsagePlan>;
+
+  constructor(scope: Construct, id: string, props: EngineApiGatewayProps) {
+    super(scope, id);
+
+    const stack = cdk.Stack.of(this);
+    const names = props.clients.map((client) => client.name);
+    if (names.length === 0 || new Set(names).size !== names.length) {
+      throw new Error(`${this.node.path}: clients need unique names`);
+    }
+    const authorizerProps = props.authorizer;
+    if (
+      authorizerProps &&
+      !authorizerProps.lambdaFunctionArn ===
+        !authorizerProps.cognitoUserPoolArns?.length
+    ) {
+      throw new Error(
+        `${this.node.path}: authorizer needs exactly one of lambdaFunctionArn or cognitoUserPoolArns`,
+      );
+    }
+
+    this.logGroup = new logs.LogGroup(this, "AccessLogs", {
+      retention: props.logRetention ?? logs.RetentionDays.ONE_MONTH,
+      removalPolicy: props.logRemovalPolicy ?? cdk.RemovalPolicy.DESTROY,
+    });
+    const field = apigw.AccessLogField;
+
+    this.api = new apigw.RestApi(this, "Api", {
+      restApiName: `${stack.stackName}-engine`,
+      description: "Fractal Engine RPC for external integrators",
+      endpointTypes: [apigw.EndpointType.REGIONAL],
+      apiKeySourceType: apigw.ApiKeySourceType.HEADER,
+      // Access logging needs the account-level CloudWatch role
+      cloudWatchRole: true,
+      deployOptions: {
+        stageName: props.stageName ?? "v1",
+        metricsEnabled: true,
+        accessLogDestination: new apigw.LogGroupLogDestination(this.logGroup),
+        accessLogFormat: apigw.AccessLogFormat.custom(
+          JSON.stringify({
+            requestId: field.contextRequestId(),
+            requestTime: field.contextRequestTime(),
+            apiKeyId: field.contextIdentityApiKeyId(),
+            principalId: field.contextAuthorizerPrincipalId(),
+            sourceIp: field.contextIdentitySourceIp(),
+            httpMethod: field.contextHttpMethod(),
+            path: field.contextPath(),
+            status: field.contextStatus(),
+            integrationStatus: field.contextIntegrationStatus(),
+            responseLatency: field.contextResponseLatency(),
+            responseLength: field.contextResponseLength(),
+            errorMessage: field.contextErrorMessage(),
+          }),
+        ),
+      },
+    });
+
+    //
+    // Authorizer (optional)
+    //
+    let authorizer: apigw.IAuthorizer | undefined;
+    const resultsCacheTtl =
+      authorizerProps?.resultsCacheTtl ?? cdk.Duration.minutes(5);
+    if (authorizerProps?.lambdaFunctionArn) {
+      authorizer = new apigw.TokenAuthorizer(this, "Authorizer", {
+        // sameEnvironment lets API Gateway be granted invoke on the function
+        handler: lambda.Function.fromFunctionAttributes(
+          this,
+          "AuthorizerFunction",
+          {
+            functionArn: authorizerProps.lambdaFunctionArn,
+            sameEnvironment: true,
+          },
+        ),
+        identitySource: apigw.IdentitySource.header("Authorization"),
+        resultsCacheTtl,
+      });
+    } else if (authorizerProps?.cognitoUserPoolArns?.length) {
+      authorizer = new apigw.CognitoUserPoolsAuthorizer(this, "Authorizer", {
+        cognitoUserPools: authorizerProps.cognitoUserPoolArns.map((arn, i) =>
+          cognito.UserPool.fromUserPoolArn(this, `UserPool${i}`, arn),
+        ),
+        resultsCacheTtl,
+      });
+    }
+
+    //
+    // Proxy every path and method through the VPC link
+    //
+    const vpcLink = new apigw.VpcLink(this, "VpcLink", {
+      description: "Engine API Gateway to the Engine NLB",
+      targets: [props.loadBalancer],
+    });
+    const integration = (path: string, proxied: boolean) =>
+      new apigw.Integration({
+        type: apigw.IntegrationType.HTTP_PROXY,
+        integrationHttpMethod: "ANY",
+        uri: `${props.targetUrl}${path}`,
+        options: {
+          connectionType: apigw.ConnectionType.VPC_LINK,
+          vpcLink,
+          requestParameters: proxied
+            ? { "integration.request.path.proxy": "method.request.path.proxy" }
+            : undefined,
+        },
+      });
+    const methodOptions: apigw.MethodOptions = {
+      apiKeyRequired: true,
+      authorizer,
+    };
+
+    this.api.root.addMethod("ANY", integration("/", false), methodOptions);
+    this.api.root
+      .addResource("{proxy+}")
+      .addMethod("ANY", integration("/{proxy}", true), {
+        ...methodOptions,
+        requestParameters: { "method.request.path.proxy": true },
+      });
+
+    //
+    // Clients: one API key and usage plan each
+    //
+    this.apiKeys = {};
+    this.usagePlans = {};
+    for (const client of props.clients) {
+      const apiKey = this.api.addApiKey(`${client.name}ApiKey`, {
+        apiKeyName: `${stack.stackName}-${client.name}`,
+        description: `Engine API key for ${client.name}`,
+      });
+      const plan = this.api.addUsagePlan(`${client.name}UsagePlan`, {
+        name: `${stack.stackName}-${client.name}`,
+        throttle: {
+          rateLimit: client.rateLimit ?? 10,
+          burstLimit: client.burstLimit ?? 20,
+        },
+        quota: client.quota,
+        apiStages: [{ api: this.api, stage: this.api.deploymentStage }],
+      });
+      plan.addApiKey(apiKey);
+      this.apiKeys[client.name] = apiKey;
+      this.usagePlans[client.name] = plan;
+    }
+  }
+}
@@ -1,17 +1,124 @@
+import * as path from "path";
 import * as cdk from "aws-cdk-lib";
 import { Construct } from "constructs";
 
 import * as ec2 from "aws-cdk-lib/aws-ec2";
 import * as ecs from "aws-cdk-lib/aws-ecs";
 import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import * as elbv2targets from "aws-cdk-lib/aws-elasticloadbalancingv2-targets";
+import * as appscaling from "aws-cdk-lib/aws-applicationautoscaling";
+import * as acm from "aws-cdk-lib/aws-certificatemanager";
+import * as cloudwatch from "aws-cdk-lib/aws-cloudwatch";
+import * as codedeploy from "aws-cdk-lib/aws-codedeploy";
+import * as route53 from "aws-cdk-lib/aws-route53";
+import * as route53targets from "aws-cdk-lib/aws-route53-targets";
+import * as events from "aws-cdk-lib/aws-events";
+import * as eventstargets from "aws-cdk-lib/aws-events-targets";
 import * as iam from "aws-cdk-lib/aws-iam";
+import * as lambda from "aws-cdk-lib/aws-lambda";
 import * as logs from "aws-cdk-lib/aws-logs";
+import * as rds from "aws-cdk-lib/aws-rds";
 import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
+import * as ssm from "aws-cdk-lib/aws-ssm";
+import { Chain } from "./chain-profile";
+import { DatabaseAppUser } from "./database-app-user";
+import { EcsBlueGreenDeployment } from "./ecs-blue-green-deployment";
+import { EcsExecAccess, EcsExecAccessProps } from "./ecs-exec-access";
+import { EcsRunTask } from "./ecs-run-task";
+import { SharedCluster } from "./compute-stack";
+import { EngineWaf, EngineWafOptions } from "./engine-waf";
+import {
+  EngineApiGateway,
+  EngineApiGatewayOptions,
+} from "./engine-api-gateway";
+import { suppressGuardrail } from "./production-guardrails";
 
 export interface DogecoinConnection {
-  host: string;
+  host: string; // preferred node
+  failoverHosts?: string[]; // further nodes, tried in order when host is down
   rpcPort?: number; // default 22555
   zmqPort?: number; // default 28000
+  rpcSecret?: secretsmanager.ISecret; // JSON with "username" and "password"
+}
+
+// A secret for the Engine container: set exactly one of secretName or ssmParameter
+export interface EngineSecretRef {
+  secretName?: string; // Secrets Manager secret name
+  field?: string; // JSON key in the secret; the whole secret when unset
+  ssmParameter?: string; // SSM parameter name (String or SecureString)
+}
+
+export interface EngineRuntimeConfig {
+  // Also the container port, target group port and engineSg ingress port
+  // (NetworkStack enginePort)
+  rpcPort?: number; // default 8891
+  corsAllowedOrigins?: string[]; // default ["*"]
+  chain?: Chain; // passed as CHAIN when set
+  // Extra container environment and secrets; keys the stack sets itself
+  // (RPC_SERVER_*, CORS_ALLOWED_ORIGINS, CHAIN, DATABASE_*, DOGE*) are rejected
+  environment?: Record<string, string>;
+  secrets?: Record<string, EngineSecretRef>;
+}
+
+// Container variables EngineStack manages itself
+export const RESERVED_ENGINE_VARIABLES =
+  /^(RPC_SERVER_\w+|CORS_ALLOWED_ORIGINS|CHAIN|DATABASE_\w+|DOGE\w*)$/;
+
+export interface EngineScalingSchedule {
+  name: string; // construct id suffix, e.g. "NightlyScaleIn"
+  schedule: appscaling.Schedule;
+  minCapacity?: number;
+  maxCapacity?: number;
+}
+
+export interface EngineScalingConfig {
+  minCapacity: number;
+  maxCapacity: number;
+  targetCpuPercent?: number; // default 60
+  targetMemoryPercent?: number; // default 75
+  requestsPerTarget?: number; // ALB requests per task per minute; off when unset
+  scaleInCooldown?: cdk.Duration; // default 5 minutes
+  scaleOutCooldown?: cdk.Duration; // default 1 minute
+  schedules?: EngineScalingSchedule[];
+}
+
+export interface EngineMigrationConfig {
+  // Runs in the Engine image with the Engine's environment and secrets, e.g.
+  // ["fractal-engine", "migrate"]; must exit 0
+  command: string[];
+  timeout?: cdk.Duration; // default 30 minutes, at most 2 hours
+}
+
+export type EngineTrafficShift = "all-at-once" | "linear" | "canary";
+
+export interface EngineBlueGreenConfig {
+  trafficShift?: EngineTrafficShift; // default "all-at-once"
+  // linear: share moved every interval; canary: share moved first, the rest
+  // one interval later
+  percent?: number; // default 10
+  interval?: cdk.Duration; // default 1 minute (linear) or 5 minutes (canary)
+  // Serves the new tasks before traffic moves; opened on albSg by NetworkStack
+  // (engineTestListener)
+  testListenerPort?: number; // default 9000
+  // How long the old tasks keep running after the shift, for a quick rollback
+  terminationWait?: cdk.Duration; // default 0
+}
+
+// "public": internet-facing ALB. "internal": ALB in the app subnets, reached
+// from the VPC and networks routed to it. "privatelink": internal ALB behind
+// an NLB that other accounts reach through a VPC endpoint service.
+export type EngineExposure = "public" | "internal" | "privatelink";
+
+export interface EngineEndpointServiceConfig {
+  // Accounts, roles or users allowed to create an interface endpoint
+  allowedPrincipals: iam.ArnPrincipal[];
+  acceptanceRequired?: boolean; // default true
+}
+
+export interface EngineStandbyConfig {
+  // Tasks the service runs once promoted; desiredCount is what it runs on
+  // standby (usually 0)
+  promotedDesiredCount: number;
 }
 
 export interface EngineStackProps extends cdk.StackProps {
@@ -26,39 +133,202 @@ export interface EngineStackProps extends cdk.StackProps {
   dbSecret: secretsmanager.ISecret;
   databaseName?: string;
 
+  // RDS Proxy; dbHost should then be the proxy endpoint
+  dbProxy?: rds.IDatabaseProxy;
+  // Log in to the proxy with IAM tokens instead of the secret's password
+  // (DatabaseStack proxyIamAuth). The Engine image must sign the tokens
+  // itself; it is only told DATABASE_IAM_AUTH=true.
+  dbIamAuth?: boolean; // default false
+  dbUsername?: string; // database user the IAM token is for, default "fractal_engine"
+  // DatabaseStack "alternating-users" rotation: the master secret, used once to
+  // create dbSecret's user before the Engine starts (see DatabaseAppUser)
+  dbMasterSecret?: secretsmanager.ISecret;
+
+  // Replace the Engine tasks whenever dbSecret is rotated, since they only
+  // read it at start
+  redeployOnDbSecretRotation?: boolean; // default false
+
   // Optionally pass Dogecoin connection details (from DogecoinStack)
   dogecoin?: DogecoinConnection;
 
+  // Engine process settings
+  runtime?: EngineRuntimeConfig;
+
+  // Schema migration run once per image before the service updates; none
+  // when unset
+  migration?: EngineMigrationConfig;
+
+  // CodeDeploy blue/green deployments; rolling updates with a circuit breaker
+  // when unset. Either way the deployment alarms roll back a bad release.
+  blueGreen?: EngineBlueGreenConfig;
+  rollbackOn5xxPerMinute?: number; // ALB + target 5xx, default 10
+
   // ECS/Service configuration
   desiredCount?: number;
+  scaling?: EngineScalingConfig; // fixed at desiredCount when unset
   cpu?: number; // 256, 512, 1024...
   memoryMiB?: number; // 512, 1024, 2048...
+  // e.g. FARGATE_SPOT for stateless replicas; FARGATE launch type when unset
+  capacityProviderStrategies?: ecs.CapacityProviderStrategy[];
+
+  // Run in a shared cluster (ComputeStack) instead of creating one
+  sharedCluster?: SharedCluster;
 
   // Container image override
   engineContainerImage?: ecs.ContainerImage;
+  engineImageTag?: string; // default v0.0.1, ignored when engineContainerImage is set
+
+  // Logging
+  logRetention?: logs.RetentionDays; // default ONE_WEEK
+  logRemovalPolicy?: cdk.RemovalPolicy; // default DESTROY
+
+  // ECS Exec operator role and session logs
+  ecsExec?: EcsExecAccessProps;
+
+  // Who can reach the ALB. NetworkStack's albIngressCidrs should match: an
+  // internal ALB is only reachable from the CIDRs allowed on albSg.
+  exposure?: EngineExposure; // default "public"
+  endpointService?: EngineEndpointServiceConfig; // "privatelink" only
+  // REST API with per-client API keys in front of an internal ALB (exposure
+  // "internal" or "privatelink"); none when unset
+  apiGateway?: EngineApiGatewayOptions;
 
   // Subnets
   appSubnetSelection?: ec2.SubnetSelection; // defaults to PRIVATE_WITH_EGRESS
-  albSubnetSelection?: ec2.SubnetSelection; // defaults to PUBLIC
+  // Defaults to PUBLIC, or PRIVATE_WITH_EGRESS unless exposure is "public"
+  albSubnetSelection?: ec2.SubnetSelection;
+
+  // HTTPS (optional). Setting domainName requires hostedZone; the NetworkStack
+  // must be created with enableHttps so albSg accepts 443.
+  domainName?: string; // e.g. "engine.example.com"
+  hostedZone?: route53.IHostedZone;
+  certificateArn?: string; // import instead of issuing a DNS-validated certificate
+
+  // WAFv2 web ACL in front of the ALB (none when unset)
+  waf?: EngineWafOptions;
+
+  // Warm standby in a disaster recovery region: the primary keeps the
+  // domain's alias record, and the promotion commands are outputs
+  standby?: EngineStandbyConfig;
 }
 
 /**
  * EngineStack
  * - Creates ECS Fargate service for the engine, fronted by an ALB
+ * - The ALB is internet-facing, internal, or internal behind a PrivateLink
+ *   endpoint service (NLB) for consumers in other accounts
+ * - Optionally fronts an internal ALB with an API Gateway REST API (see
+ *   EngineApiGateway) for integrators with their own keys and quotas
  * - Consumes external PostgreSQL connection details (host/port and credentials secret)
  * - Accepts references to VPC and security groups from NetworkStack
  * - Optionally accepts Dogecoin connection details (from DogecoinStack) to set env vars
+ * - Takes the RPC port, CORS origins, chain and any extra environment or
+ *   secrets from a typed runtime config
+ * - Optionally serves HTTPS on a custom domain, redirecting HTTP to HTTPS
+ * - Optionally filters ALB traffic with a WAF web ACL (see EngineWaf)
+ * - Optionally runs the schema migration as a one-off task before each new
+ *   image reaches the service (see EcsRunTask)
+ * - Optionally creates the database app user with a one-off task before the
+ *   Engine first starts (see DatabaseAppUser)
+ * - Rolling deployments with a circuit breaker, or CodeDeploy blue/green
+ *   deployments with a test listener and all-at-once, linear or canary
+ *   traffic shifting; 5xx or unhealthy-host alarms roll either back
+ * - Optionally forces a new deployment after the database secret is rotated
+ * - ECS Exec is limited to an operator role for this cluster and every session
+ *   is logged (see EcsExecAccess)
+ * - Optionally runs in a shared cluster (see ComputeStack), with a capacity
+ *   provider strategy such as FARGATE_SPOT
+ * - Optionally a warm standby in a disaster recovery region, promoted with
+ *   the commands in its outputs
  */
 export class EngineStack extends cdk.Stack {
-  public readonly cluster: ecs.Cluster;
+  public readonly cluster: ecs.ICluster;
   public readonly service: ecs.FargateService;
   public readonly loadBalancer: elbv2.ApplicationLoadBalancer;
+  // Listener that forwards to the Engine (HTTPS when domainName is set)
+  public readonly listener: elbv2.ApplicationListener;
+  public readonly targetGroup: elbv2.ApplicationTargetGroup; // blue in blue/green mode
+  public readonly greenTargetGroup?: elbv2.ApplicationTargetGroup;
+  public readonly exposure: EngineExposure;
+  // In front of the ALB for PrivateLink and API Gateway
+  public readonly networkLoadBalancer?: elbv2.NetworkLoadBalancer;
+  public readonly endpointService?: ec2.VpcEndpointService;
+  public readonly apiGateway?: EngineApiGateway;
+  public readonly testListener?: elbv2.ApplicationListener;
+  public readonly deploymentGroup?: codedeploy.EcsDeploymentGroup;
+  // 5xx and unhealthy-host alarms that roll back a deployment
+  public readonly deploymentAlarms: cloudwatch.Alarm[];
+  public readonly ecsExec: EcsExecAccess; // the shared cluster's when set
+  public readonly waf?: EngineWaf;
 
   constructor(scope: Construct, id: string, props: EngineStackProps) {
     super(scope, id, props);
 
     const databaseName = props.databaseName ?? "fractal";
 
+    if (props.domainName && !props.hostedZone) {
+      throw new Error(`${id}: domainName requires hostedZone`);
+    }
+    this.exposure = props.exposure ?? "public";
+    const publicAlb = this.exposure === "public";
+    if (props.endpointService && this.exposure !== "privatelink") {
+      throw new Error(`${id}: endpointService requires exposure "privatelink"`);
+    }
+    // Otherwise clients could skip the gateway's keys and quotas
+    if (props.apiGateway && publicAlb) {
+      throw new Error(
+        `${id}: apiGateway requires exposure "internal" or "privatelink"`,
+      );
+    }
+    if (
+      props.scaling &&
+      (props.scaling.minCapacity < 0 ||
+        props.scaling.maxCapacity < props.scaling.minCapacity)
+    ) {
+      throw new Error(
+        `${id}: scaling requires 0 <= minCapacity <= maxCapacity`,
+      );
+    }
+
+    const runtime = props.runtime ?? {};
+    const rpcPort = runtime.rpcPort ?? 8891;
+    const reserved = [
+      ...Object.keys(runtime.environment ?? {}),
+      ...Object.keys(runtime.secrets ?? {}),
+    ].filter((name) => RESERVED_ENGINE_VARIABLES.test(name));
+    if (reserved.length > 0) {
+      throw new Error(
+        `${id}: runtime environment/secrets may not set ${reserved.join(", ")}`,
+      );
+    }
+    if (runtime.corsAllowedOrigins?.length === 0) {
+      throw new Error(`${id}: runtime.corsAllowedOrigins must not be empty`);
+    }
+
+    // CodeDeploy owns blue/green releases: ECS can't force a new deployment,
+    // and request-count scaling would only follow the blue target group
+    const blueGreen = props.blueGreen;
+    if (blueGreen && props.redeployOnDbSecretRotation) {
+      throw new Error(
+        `${id}: blueGreen can't be combined with redeployOnDbSecretRotation`,
+      );
+    }
+    if (blueGreen && props.scaling?.requestsPerTarget !== undefined) {
+      throw new Error(
+        `${id}: blueGreen can't be combined with scaling.requestsPerTarget`,
+      );
+    }
+    // A standby's database is a read-only replica, and its task count stays
+    // at desiredCount, until promoted
+    if (props.standby && (props.migration || props.scaling)) {
+      throw new Error(
+        `${id}: standby can't be combined with migration or scaling`,
+      );
+    }
+    if (props.dbMasterSecret && props.dbProxy) {
+      throw new Error(`${id}: dbMasterSecret can't be combined with dbProxy`);
+    }
+
     //
     // Data layer: External PostgreSQL (provided by DatabaseStack)
     //
@@ -66,10 +336,24 @@ export class EngineStack extends cdk.Stack {
     //
     // Compute: ECS Cluster + TaskDefinition + FargateService behind ALB
     //
-    this.cluster = new ecs.Cluster(this, "FractalCluster", {
-      vpc: props.vpc,
-      containerInsights: true,
-    });
+    if (props.sharedCluster) {
+      this.cluster = props.sharedCluster.cluster;
+      this.ecsExec = props.sharedCluster.ecsExec;
+    } else {
+      this.ecsExec = new EcsExecAccess(this, "EcsExec", {
+        removalPolicy: props.logRemovalPolicy,
+        ...props.ecsExec,
+      });
+      const cluster = new ecs.Cluster(this, "FractalCluster", {
+        vpc: props.vpc,
+        containerInsights: true,
+        enableFargateCapacityProviders:
+          props.capacityProviderStrategies !== undefined,
+        executeCommandConfiguration: this.ecsExec.configuration,
+      });
+      this.ecsExec.allowExecInto(cluster);
+      this.cluster = cluster;
+    }
 
     // IAM Roles
     const taskExecutionRole = new iam.Role(this, "TaskExecutionRole", {
@@ -93,6 +377,17 @@ export class EngineStack extends cdk.Stack {
     // Allow the task to read the database credentials secret
     props.dbSecret.grantRead(taskRole);
 
+    // ...and to sign IAM auth tokens (rds-db:connect) for the proxy
+    if (props.dbIamAuth) {
+      props.dbProxy?.grantConnect(
+        taskRole,
+        props.dbUsername ?? "fractal_engine",
+      );
+    }
+
+    // ...and the Dogecoin RPC credentials, when provided
+    props.dogecoin?.rpcSecret?.grantRead(taskRole);
+
     // Minimal SSM messages permissions on the task role for ECS Exec
     taskRole.addToPolicy(
       new iam.PolicyStatement({
@@ -106,34 +401,6 @@ export class EngineStack extends cdk.Stack {
       }),
     );
 
-    // Managed policy for operators to run ECS Exec against this service's tasks.
-    // Attach this policy to your human/operator IAM users or roles.
-    const ecsExecOperatorPolicy = new iam.ManagedPolicy(
-      this,
-      "EcsExecOperatorPolicy",
-      {
-        description: "Allows operators to run ECS Exec and manage SSM sessions",
-        statements: [
-          new iam.PolicyStatement({
-            actions: ["ecs:ExecuteCommand"],
-            resources: ["*"],
-          }),
-          new iam.PolicyStatement({
-            actions: [
-              "ssm:StartSession",
-              "ssm:DescribeSessions",
-              "ssm:TerminateSession",
-            ],
-            resources: ["*"],
-          }),
-          new iam.PolicyStatement({
-            actions: ["kms:Decrypt"],
-            resources: ["*"],
-          }),
-        ],
-      },
-    );
-
     const taskDef = new ecs.FargateTaskDefinition(this, "FractalTaskDef", {
       memoryLimitMiB: props.memoryMiB ?? 1024,
       cpu: props.cpu ?? 512,
@@ -142,49 +409,77 @@ export class EngineStack extends cdk.Stack {
     });
 
     const logGroup = new logs.LogGroup(this, "EngineLogs", {
-      retention: logs.RetentionDays.ONE_WEEK,
-      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      retention: props.logRetention ?? logs.RetentionDays.ONE_WEEK,
+      removalPolicy: props.logRemovalPolicy ?? cdk.RemovalPolicy.DESTROY,
     });
 
     const image =
       props.engineContainerImage ??
       ecs.ContainerImage.fromRegistry(
-        "ghcr.io/dogecoinfoundation/fractal-engine:v0.0.1",
+        `ghcr.io/dogecoinfoundation/fractal-engine:${props.engineImageTag ?? "v0.0.1"}`,
       );
 
+    // Shared by the Engine and its migration task
+    const environment: Record<string, string> = {
+      ...runtime.environment,
+      RPC_SERVER_HOST: "0.0.0.0",
+      RPC_SERVER_PORT: String(rpcPort),
+      CORS_ALLOWED_ORIGINS: (runtime.corsAllowedOrigins ?? ["*"]).join(","),
+      ...(runtime.chain ? { CHAIN: runtime.chain } : {}),
+      DATABASE_HOST: props.dbHost,
+      DATABASE_PORT: String(props.dbPort ?? 5432),
+      DATABASE_NAME: databaseName,
+      // Through an IAM auth proxy, connect with an IAM token over TLS
+      ...(props.dbIamAuth
+        ? { DATABASE_IAM_AUTH: "true", DATABASE_SSLMODE: "require" }
+        : {}),
+      ...(props.dogecoin?.host
+        ? {
+            DOGE_HOST: props.dogecoin.host,
+            // Comma-separated failover order, starting with DOGE_HOST
+            DOGE_HOSTS: [
+              props.dogecoin.host,
+              ...(props.dogecoin.failoverHosts ?? []),
+            ].join(","),
+            DOGE_PORT: String(props.dogecoin.rpcPort ?? 22555),
+            DOGECOIN_ZMQ_PORT: String(props.dogecoin.zmqPort ?? 28000),
+          }
+        : {}),
+    };
+    const secrets: Record<string, ecs.Secret> = {
+      ...this.runtimeSecrets(runtime.secrets ?? {}),
+      DATABASE_USERNAME: ecs.Secret.fromSecretsManager(
+        props.dbSecret,
+        "username",
+      ),
+      DATABASE_PASSWORD: ecs.Secret.fromSecretsManager(
+        props.dbSecret,
+        "password",
+      ),
+      ...(props.dogecoin?.rpcSecret
+        ? {
+            DOGE_USER: ecs.Secret.fromSecretsManager(
+              props.dogecoin.rpcSecret,
+              "username",
+            ),
+            DOGE_PASSWORD: ecs.Secret.fromSecretsManager(
+              props.dogecoin.rpcSecret,
+              "password",
+            ),
+          }
+        : {}),
+    };
+
     const container = taskDef.addContainer("Engine", {
       image,
       logging: ecs.LogDrivers.awsLogs({ streamPrefix: "engine", logGroup }),
-      environment: {
-        RPC_SERVER_HOST: "0.0.0.0",
-        RPC_SERVER_PORT: "8891",
-        CORS_ALLOWED_ORIGINS: "*",
-        DATABASE_HOST: props.dbHost,
-        DATABASE_PORT: String(props.dbPort ?? 5432),
-        DATABASE_NAME: databaseName,
-        ...(props.dogecoin?.host
-          ? {
-              DOGE_HOST: props.dogecoin.host,
-              DOGE_PORT: String(props.dogecoin.rpcPort ?? 22555),
-              DOGECOIN_ZMQ_PORT: String(props.dogecoin.zmqPort ?? 28000),
-            }
-          : {}),
-      },
-      secrets: {
-        DATABASE_USERNAME: ecs.Secret.fromSecretsManager(
-          props.dbSecret,
-          "username",
-        ),
-        DATABASE_PASSWORD: ecs.Secret.fromSecretsManager(
-          props.dbSecret,
-          "password",
-        ),
-      },
+      environment,
+      secrets,
       essential: true,
     });
 
     container.addPortMappings({
-      containerPort: 8891,
+      containerPort: rpcPort,
       protocol: ecs.Protocol.TCP,
     });
 
@@ -193,64 +488,623 @@ export class EngineStack extends cdk.Stack {
       protocol: ecs.Protocol.TCP,
     });
 
+    //
+    // Schema migration (optional): the Engine image, environment, secrets,
+    // network and capacity, run once whenever the image changes. The service only
+    // updates after it exits 0; otherwise the deploy fails with its exit code
+    // and last log lines.
+    //
+    const appSubnets = props.appSubnetSelection ?? {
+      subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
+    };
+    // The app user (optional) exists before the migration or Engine log in
+    // with it
+    const appUser = props.dbMasterSecret
+      ? new DatabaseAppUser(this, "DbAppUser", {
+          cluster: this.cluster,
+          capacityProviderStrategies: props.capacityProviderStrategies,
+          vpc: props.vpc,
+          vpcSubnets: appSubnets,
+          securityGroup: props.engineSecurityGroup,
+          host: props.dbHost,
+          port: props.dbPort ?? 5432,
+          databaseName,
+          masterSecret: props.dbMasterSecret,
+          appSecret: props.dbSecret,
+          logGroup,
+        })
+      : undefined;
+
+    let migration: EcsRunTask | undefined;
+    if (props.migration) {
+      const migrationTaskDef = new ecs.FargateTaskDefinition(
+        this,
+        "MigrationTaskDef",
+        {
+          memoryLimitMiB: props.memoryMiB ?? 1024,
+          cpu: props.cpu ?? 512,
+          executionRole: taskExecutionRole,
+          taskRole,
+        },
+      );
+      const migrationContainer = migrationTaskDef.addContainer("Migrate", {
+        image,
+        command: props.migration.command,
+        logging: ecs.LogDrivers.awsLogs({
+          streamPrefix: "migration",
+          logGroup,
+        }),
+        environment,
+        secrets,
+        essential: true,
+      });
+      suppressGuardrail(
+        migrationTaskDef,
+        "engine-cors-wildcard",
+        "The migration task serves no requests",
+      );
+
+      migration = new EcsRunTask(this, "Migration", {
+        cluster: this.cluster,
+        taskDefinition: migrationTaskDef,
+        containerName: migrationContainer.containerName,
+        capacityProviderStrategies: props.capacityProviderStrategies,
+        vpc: props.vpc,
+        vpcSubnets: appSubnets,
+        securityGroups: [props.engineSecurityGroup],
+        logGroup,
+        logStreamPrefix: "migration",
+        trigger: migrationContainer.imageName,
+        timeout: props.migration.timeout ?? cdk.Duration.minutes(30),
+      });
+      if (appUser) {
+        migration.node.addDependency(appUser);
+      }
+    }
+
     this.service = new ecs.FargateService(this, "FractalService", {
       cluster: this.cluster,
       taskDefinition: taskDef,
       desiredCount: props.desiredCount ?? 1,
+      capacityProviderStrategies: props.capacityProviderStrategies,
       enableExecuteCommand: true,
       securityGroups: [props.engineSecurityGroup],
-      vpcSubnets: props.appSubnetSelection ?? {
-        subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
-      },
+      vpcSubnets: appSubnets,
       assignPublicIp: false,
       minHealthyPercent: 100,
       maxHealthyPercent: 200,
+      ...(blueGreen
+        ? {
+            deploymentController: {
+              type: ecs.DeploymentControllerType.CODE_DEPLOY,
+            },
+          }
+        : { circuitBreaker: { enable: true, rollback: true } }),
     });
+    // The strategy's providers must be associated with the cluster first
+    if (props.capacityProviderStrategies && !props.sharedCluster) {
+      this.service.node.addDependency(this.cluster);
+      migration?.node.addDependency(this.cluster);
+      appUser?.node.addDependency(this.cluster);
+    }
+    if (appUser) {
+      this.service.node.addDependency(appUser);
+    }
+    // New images reach the service (and CodeDeploy) only once migrated
+    if (migration) {
+      this.service.node.addDependency(migration);
+    }
 
-    // Application Load Balancer in public subnets
+    // Application Load Balancer in the public subnets, or the app subnets when
+    // it is not internet-facing
     this.loadBalancer = new elbv2.ApplicationLoadBalancer(this, "FractalAlb", {
       vpc: props.vpc,
-      internetFacing: true,
+      internetFacing: publicAlb,
       securityGroup: props.albSecurityGroup,
       vpcSubnets: props.albSubnetSelection ?? {
-        subnetType: ec2.SubnetType.PUBLIC,
+        subnetType: publicAlb
+          ? ec2.SubnetType.PUBLIC
+          : ec2.SubnetType.PRIVATE_WITH_EGRESS,
       },
     });
 
+    const httpsEnabled = props.domainName !== undefined;
+
+    // With HTTPS enabled, port 80 only redirects
     const httpListener = this.loadBalancer.addListener("HttpListener", {
       port: 80,
-      open: true,
+      open: publicAlb,
+      defaultAction: httpsEnabled
+        ? elbv2.ListenerAction.redirect({
+            protocol: "HTTPS",
+            port: "443",
+            permanent: true,
+          })
+        : undefined,
     });
+    this.listener = httpListener;
 
-    const tg = new elbv2.ApplicationTargetGroup(this, "EngineTargetGroup", {
-      vpc: props.vpc,
-      port: 8891,
-      protocol: elbv2.ApplicationProtocol.HTTP,
-      targetType: elbv2.TargetType.IP,
-      healthCheck: {
-        path: "/health",
-        healthyHttpCodes: "200",
-        interval: cdk.Duration.seconds(30),
-      },
-      deregistrationDelay: cdk.Duration.seconds(10),
-    });
+    let certificate: acm.ICertificate | undefined;
+    if (props.domainName && props.hostedZone) {
+      certificate = props.certificateArn
+        ? acm.Certificate.fromCertificateArn(
+            this,
+            "EngineCertificate",
+            props.certificateArn,
+          )
+        : new acm.Certificate(this, "EngineCertificate", {
+            domainName: props.domainName,
+            validation: acm.CertificateValidation.fromDns(props.hostedZone),
+          });
+
+      this.listener = this.loadBalancer.addListener("HttpsListener", {
+        port: 443,
+        open: publicAlb,
+        certificates: [certificate],
+        sslPolicy: elbv2.SslPolicy.RECOMMENDED_TLS,
+      });
+
+      if (!props.standby) {
+        new route53.ARecord(this, "EngineAliasRecord", {
+          zone: props.hostedZone,
+          recordName: props.domainName,
+          target: route53.RecordTarget.fromAlias(
+            new route53targets.LoadBalancerTarget(this.loadBalancer),
+          ),
+        });
+      }
+    }
+
+    const targetGroup = (targetGroupId: string) =>
+      new elbv2.ApplicationTargetGroup(this, targetGroupId, {
+        vpc: props.vpc,
+        port: rpcPort,
+        protocol: elbv2.ApplicationProtocol.HTTP,
+        targetType: elbv2.TargetType.IP,
+        healthCheck: {
+          path: "/health",
+          healthyHttpCodes: "200",
+          interval: cdk.Duration.seconds(30),
+        },
+        deregistrationDelay: cdk.Duration.seconds(10),
+      });
+    const tg = targetGroup("EngineTargetGroup");
+    this.targetGroup = tg;
 
     // Attach the service to the Target Group
     this.service.attachToApplicationTargetGroup(tg);
 
     // Add TG to Listener
-    httpListener.addTargetGroups("AttachEngineTg", {
+    this.listener.addTargetGroups("AttachEngineTg", {
       targetGroups: [tg],
     });
 
+    // Blue/green: the test listener serves the replacement tasks in the green
+    // target group until CodeDeploy swaps the two
+    if (blueGreen) {
+      this.greenTargetGroup = targetGroup("EngineGreenTargetGroup");
+      this.testListener = this.loadBalancer.addListener("TestListener", {
+        port: blueGreen.testListenerPort ?? 9000,
+        protocol: certificate
+          ? elbv2.ApplicationProtocol.HTTPS
+          : elbv2.ApplicationProtocol.HTTP,
+        certificates: certificate ? [certificate] : undefined,
+        sslPolicy: certificate ? elbv2.SslPolicy.RECOMMENDED_TLS : undefined,
+        open: false,
+        defaultTargetGroups: [this.greenTargetGroup],
+      });
+    }
+
+    //
+    // Deployment alarms: a release that raises 5xx or leaves targets
+    // unhealthy is rolled back
+    //
+    const period = cdk.Duration.minutes(1);
+    const targetGroups: Record<string, elbv2.ApplicationTargetGroup> = {
+      blue: tg,
+      ...(this.greenTargetGroup ? { green: this.greenTargetGroup } : {}),
+    };
+    const sumOf = (
+      label: string,
+      metrics: Record<string, cloudwatch.IMetric>,
+    ) =>
+      new cloudwatch.MathExpression({
+        label,
+        expression: Object.keys(metrics)
+          .map((metricId) => `FILL(${metricId}, 0)`)
+          .join(" + "),
+        usingMetrics: metrics,
+        period,
+      });
+
+    // Named up front: the rolling service refers to them by name
+    const alarmNames = [
+      `${this.stackName}-deployment-5xx`,
+      `${this.stackName}-deployment-unhealthy-hosts`,
+    ];
+    const deployment5xx = new cloudwatch.Alarm(this, "Deployment5xxAlarm", {
+      alarmName: alarmNames[0],
+      alarmDescription: "Engine 5xx during or after a deployment",
+      metric: sumOf("ALB + target 5xx", {
+        elb: this.loadBalancer.metrics.httpCodeElb(
+          elbv2.HttpCodeElb.ELB_5XX_COUNT,
+          { period, statistic: "Sum" },
+        ),
+        ...Object.fromEntries(
+          Object.entries(targetGroups).map(([color, group]) => [
+            color,
+            group.metrics.httpCodeTarget(
+              elbv2.HttpCodeTarget.TARGET_5XX_COUNT,
+              { period, statistic: "Sum" },
+            ),
+          ]),
+        ),
+      }),
+      threshold: props.rollbackOn5xxPerMinute ?? 10,
+      evaluationPeriods: 2,
+      comparisonOperator:
+        cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+    });
+    const deploymentUnhealthy = new cloudwatch.Alarm(
+      this,
+      "DeploymentUnhealthyHostsAlarm",
+      {
+        alarmName: alarmNames[1],
+        alarmDescription:
+          "Engine targets unhealthy during or after a deployment",
+        metric: sumOf(
+          "Unhealthy targets",
+          Object.fromEntries(
+            Object.entries(targetGroups).map(([color, group]) => [
+              color,
+              group.metrics.unhealthyHostCount({
+                period,
+                statistic: "Maximum",
+              }),
+            ]),
+          ),
+        ),
+        threshold: 1,
+        evaluationPeriods: 2,
+        comparisonOperator:
+          cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      },
+    );
+    this.deploymentAlarms = [deployment5xx, deploymentUnhealthy];
+
+    //
+    // Deployments: ECS rolling updates, or CodeDeploy blue/green (optional)
+    //
+    if (blueGreen && this.greenTargetGroup && this.testListener) {
+      const trafficShift = blueGreen.trafficShift ?? "all-at-once";
+      const percentage = blueGreen.percent ?? 10;
+      const trafficRouting =
+        trafficShift === "linear"
+          ? new codedeploy.TimeBasedLinearTrafficRouting({
+              interval: blueGreen.interval ?? cdk.Duration.minutes(1),
+              percentage,
+            })
+          : trafficShift === "canary"
+            ? new codedeploy.TimeBasedCanaryTrafficRouting({
+                interval: blueGreen.interval ?? cdk.Duration.minutes(5),
+                percentage,
+              })
+            : undefined;
+
+      this.deploymentGroup = new codedeploy.EcsDeploymentGroup(
+        this,
+        "EngineDeploymentGroup",
+        {
+          service: this.service,
+          blueGreenDeploymentConfig: {
+            blueTargetGroup: tg,
+            greenTargetGroup: this.greenTargetGroup,
+            listener: this.listener,
+            testListener: this.testListener,
+            terminationWaitTime: blueGreen.terminationWait,
+          },
+          deploymentConfig: trafficRouting
+            ? new codedeploy.EcsDeploymentConfig(this, "EngineTrafficShift", {
+                trafficRouting,
+              })
+            : codedeploy.EcsDeploymentConfig.ALL_AT_ONCE,
+          alarms: this.deploymentAlarms,
+          autoRollback: {
+            failedDeployment: true,
+            stoppedDeployment: true,
+            deploymentInAlarm: true,
+          },
+        },
+      );
+
+      // CloudFormation registers each new task definition revision; this
+      // hands it to CodeDeploy and waits for the traffic shift
+      new EcsBlueGreenDeployment(this, "EngineBlueGreenDeployment", {
+        service: this.service,
+        deploymentGroup: this.deploymentGroup,
+        taskDefinition: taskDef,
+        containerName: container.containerName,
+        containerPort: rpcPort,
+        timeout: cdk.Duration.hours(2),
+      });
+    } else {
+      this.service.enableDeploymentAlarms(alarmNames, {
+        behavior: ecs.AlarmBehavior.ROLLBACK_ON_ALARM,
+      });
+      this.service.node.addDependency(...this.deploymentAlarms);
+    }
+
+    //
+    // PrivateLink and API Gateway (optional): an internal NLB passes TCP
+    // through to the ALB's listener. The endpoint service publishes it to
+    // other accounts; the REST API reaches it through a VPC link.
+    //
+    if (this.exposure === "privatelink" || props.apiGateway) {
+      const port = this.listener.port;
+      this.networkLoadBalancer = new elbv2.NetworkLoadBalancer(
+        this,
+        "EngineNlb",
+        {
+          vpc: props.vpc,
+          internetFacing: false,
+          crossZoneEnabled: true,
+          vpcSubnets: props.albSubnetSelection ?? {
+            subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
+          },
+        },
+      );
+      this.networkLoadBalancer
+        .addListener("EngineNlbListener", { port })
+        .addTargets("EngineAlbTarget", {
+          port,
+          targets: [new elbv2targets.AlbListenerTarget(this.listener)],
+          healthCheck: {
+            protocol: certificate ? elbv2.Protocol.HTTPS : elbv2.Protocol.HTTP,
+            path: "/health",
+          },
+        });
+    }
+    if (this.networkLoadBalancer && this.exposure === "privatelink") {
+      this.endpointService = new ec2.VpcEndpointService(
+        this,
+        "EngineEndpointService",
+        {
+          vpcEndpointServiceLoadBalancers: [this.networkLoadBalancer],
+          acceptanceRequired: props.endpointService?.acceptanceRequired ?? true,
+          allowedPrincipals: props.endpointService?.allowedPrincipals,
+        },
+      );
+    }
+    if (this.networkLoadBalancer && props.apiGateway) {
+      this.apiGateway = new EngineApiGateway(this, "EngineApiGateway", {
+        ...props.apiGateway,
+        loadBalancer: this.networkLoadBalancer,
+        // TLS is checked against the certificate's name, not the NLB's
+        targetUrl: certificate
+          ? `https://${props.domainName}`
+          : `http://${this.networkLoadBalancer.loadBalancerDnsName}`,
+        logRemovalPolicy: props.logRemovalPolicy,
+      });
+    }
+
+    //
+    // WAF (optional)
+    //
+    if (props.waf) {
+      this.waf = new EngineWaf(this, "EngineWaf", {
+        ...props.waf,
+        loadBalancer: this.loadBalancer,
+        logRemovalPolicy: props.logRemovalPolicy,
+      });
+    }
+
+    //
+    // Autoscaling (optional)
+    //
+    if (props.scaling) {
+      const scaling = props.scaling;
+      const scaleInCooldown =
+        scaling.scaleInCooldown ?? cdk.Duration.minutes(5);
+      const scaleOutCooldown =
+        scaling.scaleOutCooldown ?? cdk.Duration.minutes(1);
+
+      const scalableTarget = this.service.autoScaleTaskCount({
+        minCapacity: scaling.minCapacity,
+        maxCapacity: scaling.maxCapacity,
+      });
+
+      scalableTarget.scaleOnCpuUtilization("CpuScaling", {
+        targetUtilizationPercent: scaling.targetCpuPercent ?? 60,
+        scaleInCooldown,
+        scaleOutCooldown,
+      });
+
+      scalableTarget.scaleOnMemoryUtilization("MemoryScaling", {
+        targetUtilizationPercent: scaling.targetMemoryPercent ?? 75,
+        scaleInCooldown,
+        scaleOutCooldown,
+      });
+
+      if (scaling.requestsPerTarget !== undefined) {
+        scalableTarget.scaleOnRequestCount("RequestCountScaling", {
+          requestsPerTarget: scaling.requestsPerTarget,
+          targetGroup: tg,
+          scaleInCooldown,
+          scaleOutCooldown,
+        });
+      }
+
+      for (const scheduled of scaling.schedules ?? []) {
+        scalableTarget.scaleOnSchedule(`Schedule${scheduled.name}`, {
+          schedule: scheduled.schedule,
+          minCapacity: scheduled.minCapacity,
+          maxCapacity: scheduled.maxCapacity,
+        });
+      }
+    }
+
+    //
+    // Redeploy on credential rotation (optional)
+    //
+    if (props.redeployOnDbSecretRotation) {
+      const redeployFn = new lambda.Function(this, "RedeployOnRotation", {
+        runtime: lambda.Runtime.NODEJS_20_X,
+        handler: "index.handler",
+        code: lambda.Code.fromAsset(
+          path.join(__dirname, "force-deployment-handler"),
+        ),
+        timeout: cdk.Duration.seconds(30),
+        description: "Forces a new Engine deployment after a secret rotation",
+        environment: {
+          CLUSTER: this.cluster.clusterName,
+          SERVICE: this.service.serviceName,
+        },
+      });
+      redeployFn.addToRolePolicy(
+        new iam.PolicyStatement({
+          actions: ["ecs:UpdateService"],
+          resources: [this.service.serviceArn],
+        }),
+      );
+
+      // Secrets Manager reports finished rotations through CloudTrail
+      new events.Rule(this, "DbSecretRotatedRule", {
+        description: "Engine database secret rotated",
+        eventPattern: {
+          source: ["aws.secretsmanager"],
+          detailType: ["AWS Service Event via CloudTrail"],
+          detail: {
+            eventName: ["RotationSucceeded"],
+            additionalEventData: { SecretId: [props.dbSecret.secretArn] },
+          },
+        },
+        targets: [new eventstargets.LambdaFunction(redeployFn)],
+      });
+    }
+
     //
     // Outputs
     //
-    new cdk.CfnOutput(this, "AlbDnsName", {
+    // An internal ALB's name only resolves to addresses inside the VPC
+    new cdk.CfnOutput(this, publicAlb ? "AlbDnsName" : "InternalAlbDnsName", {
       value: this.loadBalancer.loadBalancerDnsName,
     });
-    new cdk.CfnOutput(this, "EcsExecOperatorPolicyArn", {
-      value: ecsExecOperatorPolicy.managedPolicyArn,
-    });
+    if (this.endpointService) {
+      new cdk.CfnOutput(this, "EngineEndpointServiceName", {
+        value: this.endpointService.vpcEndpointServiceName,
+      });
+      new cdk.CfnOutput(this, "EngineEndpointServiceId", {
+        value: this.endpointService.vpcEndpointServiceId,
+      });
+    }
+    if (this.apiGateway) {
+      new cdk.CfnOutput(this, "EngineApiUrl", {
+        value: this.apiGateway.api.url,
+      });
+      new cdk.CfnOutput(this, "EngineApiAccessLogGroup", {
+        value: this.apiGateway.logGroup.logGroupName,
+      });
+      // Read a key with `aws apigateway get-api-key --api-key <id> --include-value`
+      for (const [name, apiKey] of Object.entries(this.apiGateway.apiKeys)) {
+        new cdk.CfnOutput(this, `EngineApiKeyId${name}`, {
+          value: apiKey.keyId,
+        });
+      }
+    }
+    if (props.domainName) {
+      new cdk.CfnOutput(this, "EngineUrl", {
+        value: `https://${props.domainName}`,
+      });
+    }
+    if (this.deploymentGroup) {
+      new cdk.CfnOutput(this, "EngineDeploymentGroupName", {
+        value: this.deploymentGroup.deploymentGroupName,
+      });
+    }
+    if (this.waf) {
+      new cdk.CfnOutput(this, "EngineWebAclArn", {
+        value: this.waf.webAcl.attrArn,
+      });
+      new cdk.CfnOutput(this, "EngineWafLogGroup", {
+        value: this.waf.logGroup.logGroupName,
+      });
+    }
+    // A shared cluster's ECS Exec outputs are on its own stack
+    if (!props.sharedCluster) {
+      new cdk.CfnOutput(this, "EcsExecOperatorPolicyArn", {
+        value: this.ecsExec.operatorPolicy.managedPolicyArn,
+      });
+      new cdk.CfnOutput(this, "EcsExecOperatorRoleArn", {
+        value: this.ecsExec.operatorRole.roleArn,
+      });
+      new cdk.CfnOutput(this, "EcsExecSessionLogGroup", {
+        value: this.ecsExec.logGroup.logGroupName,
+      });
+      new cdk.CfnOutput(this, "EcsExecSessionLogBucket", {
+        value: this.ecsExec.bucket.bucketName,
+      });
+    }
+    // Promotion, after the database and Dogecoin: start the tasks, then move
+    // the domain to this ALB
+    if (props.standby) {
+      new cdk.CfnOutput(this, "StartEngineCommand", {
+        value: `aws ecs update-service --cluster ${this.cluster.clusterName} --service ${this.service.serviceName} --desired-count ${props.standby.promotedDesiredCount} --region ${this.region}`,
+      });
+      if (props.domainName && props.hostedZone) {
+        const changeBatch = {
+          Changes: [
+            {
+              Action: "UPSERT",
+              ResourceRecordSet: {
+                Name: props.domainName,
+                Type: "A",
+                AliasTarget: {
+                  HostedZoneId:
+                    this.loadBalancer.loadBalancerCanonicalHostedZoneId,
+                  DNSName: `dualstack.${this.loadBalancer.loadBalancerDnsName}`,
+                  EvaluateTargetHealth: false,
+                },
+              },
+            },
+          ],
+        };
+        new cdk.CfnOutput(this, "SwitchDnsCommand", {
+          value: `aws route53 change-resource-record-sets --hosted-zone-id ${props.hostedZone.hostedZoneId} --change-batch '${this.toJsonString(changeBatch)}'`,
+        });
+      }
+    }
+  }
+
+  // Container secrets from Secrets Manager or SSM, imported by name
+  private runtimeSecrets(
+    refs: Record<string, EngineSecretRef>,
+  ): Record<string, ecs.Secret> {
+    const secrets: Record<string, ecs.Secret> = {};
+    for (const [name, ref] of Object.entries(refs)) {
+      if (!ref.secretName === !ref.ssmParameter) {
+        throw new Error(
+          `${this.node.id}: runtime secret ${name} needs exactly one of secretName or ssmParameter`,
+        );
+      }
+      secrets[name] = ref.secretName
+        ? ecs.Secret.fromSecretsManager(
+            secretsmanager.Secret.fromSecretNameV2(
+              this,
+              `RuntimeSecret${name}`,
+              ref.secretName,
+            ),
+            ref.field,
+          )
+        : ecs.Secret.fromSsmParameter(
+            ssm.StringParameter.fromSecureStringParameterAttributes(
+              this,
+              `RuntimeParameter${name}`,
+              { parameterName: ref.ssmParameter as string },
+            ),
+          );
+    }
+    return secrets;
   }
 }
@@ -0,0 +1,215 @@
+import * as cdk from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+import * as cloudwatch from "aws-cdk-lib/aws-cloudwatch";
+import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as wafv2 from "aws-cdk-lib/aws-wafv2";
+
+export const DEFAULT_WAF_MANAGED_RULE_GROUPS = [
+  "AWSManagedRulesAmazonIpReputationList",
+  "AWSManagedRulesCommonRuleSet",
+  "AWSManagedRulesKnownBadInputsRuleSet",
+];
+
+export interface EngineWafOptions {
+  rateLimitPer5Min?: number; // requests per client IP, default 1000
+  managedRuleGroups?: string[]; // AWS managed rule groups, default DEFAULT_WAF_MANAGED_RULE_GROUPS
+  // IPv4 CIDRs. With an allowlist, every other address is blocked
+  allowedCidrs?: string[];
+  blockedCidrs?: string[];
+  // ISO 3166-1 alpha-2 country codes; set at most one of the two
+  allowedCountries?: string[];
+  blockedCountries?: string[];
+  logRetention?: logs.RetentionDays; // default ONE_MONTH
+}
+
+export interface EngineWafProps extends EngineWafOptions {
+  loadBalancer: elbv2.IApplicationLoadBalancer;
+  logRemovalPolicy?: cdk.RemovalPolicy; // default DESTROY
+}
+
+/**
+ * EngineWaf
+ * - Regional WAFv2 web ACL associated with the Engine ALB
+ * - Rules, in order: IP blocklist, IP allowlist, geo restriction, per-IP rate
+ *   limit, then AWS managed rule groups; anything left is allowed
+ * - Logs requests to an `aws-waf-logs-` log group (Authorization redacted) and
+ *   exposes CloudWatch metrics per rule for alarms
+ */
+export class EngineWaf extends Construct {
+  public readonly webAcl: wafv2.CfnWebACL;
+  public readonly webAclName: string;
+  public readonly logGroup: logs.LogGroup;
+  // Metric names of the rules, in evaluation order
+  public readonly ruleNames: string[];
+
+  constructor(scope: Construct, id: string, props: EngineWafProps) {
+    super(scope, id);
+
+    const stack = cdk.Stack.of(this);
+    if (props.allowedCountries?.length && props.blockedCountries?.length) {
+      throw new Error(
+        `${this.node.path}: set allowedCountries or blockedCountries, not both`,
+      );
+    }
+
+    this.webAclName = `${stack.stackName}-engine`;
+    const visibility = (metricName: string) => ({
+      metricName,
+      cloudWatchMetricsEnabled: true,
+      sampledRequestsEnabled: true,
+    });
+    const ipSet = (ipSetId: string, addresses: string[]) =>
+      new wafv2.CfnIPSet(this, ipSetId, {
+        scope: "REGIONAL",
+        ipAddressVersion: "IPV4",
+        addresses,
+      });
+
+    // [name, statement] of the blocking rules; managed rule groups follow
+    const rules: [string, wafv2.CfnWebACL.StatementProperty][] = [];
+
+    if (props.blockedCidrs?.length) {
+      const blocked = ipSet("BlockedIps", props.blockedCidrs);
+      rules.push([
+        "BlockedIps",
+        { ipSetReferenceStatement: { arn: blocked.attrArn } },
+      ]);
+    }
+    if (props.allowedCidrs?.length) {
+      const allowed = ipSet("AllowedIps", props.allowedCidrs);
+      rules.push([
+        "NotAllowedIps",
+        {
+          notStatement: {
+            statement: { ipSetReferenceStatement: { arn: allowed.attrArn } },
+          },
+        },
+      ]);
+    }
+    if (props.blockedCountries?.length) {
+      rules.push([
+        "BlockedCountries",
+        { geoMatchStatement: { countryCodes: props.blockedCountries } },
+      ]);
+    }
+    if (props.allowedCountries?.length) {
+      rules.push([
+        "NotAllowedCountries",
+        {
+          notStatement: {
+            statement: {
+              geoMatchStatement: { countryCodes: props.allowedCountries },
+            },
+          },
+        },
+      ]);
+    }
+    rules.push([
+      "RateLimit",
+      {
+        rateBasedStatement: {
+          limit: props.rateLimitPer5Min ?? 1000,
+          aggregateKeyType: "IP",
+        },
+      },
+    ]);
+
+    const managedRuleGroups =
+      props.managedRuleGroups ?? DEFAULT_WAF_MANAGED_RULE_GROUPS;
+    this.ruleNames = [...rules.map(([name]) => name), ...managedRuleGroups];
+
+    this.webAcl = new wafv2.CfnWebACL(this, "WebAcl", {
+      name: this.webAclName,
+      description: "Protects the public Engine RPC endpoint",
+      scope: "REGIONAL",
+      defaultAction: { allow: {} },
+      visibilityConfig: visibility(this.webAclName),
+      rules: [
+        ...rules.map(([name, statement], priority) => ({
+          name,
+          priority,
+          statement,
+          action: { block: {} },
+          visibilityConfig: visibility(name),
+        })),
+        ...managedRuleGroups.map((name, i) => ({
+          name,
+          priority: rules.length + i,
+          statement: {
+            managedRuleGroupStatement: { vendorName: "AWS", name },
+          },
+          overrideAction: { none: {} },
+          visibilityConfig: visibility(name),
+        })),
+      ],
+    });
+
+    new wafv2.CfnWebACLAssociation(this, "AlbAssociation", {
+      resourceArn: props.loadBalancer.loadBalancerArn,
+      webAclArn: this.webAcl.attrArn,
+    });
+
+    //
+    // Logging: WAF only writes to log groups named aws-waf-logs-*
+    //
+    this.logGroup = new logs.LogGroup(this, "Logs", {
+      logGroupName: `aws-waf-logs-${this.webAclName}`,
+      retention: props.logRetention ?? logs.RetentionDays.ONE_MONTH,
+      removalPolicy: props.logRemovalPolicy ?? cdk.RemovalPolicy.DESTROY,
+    });
+    const logging = new wafv2.CfnLoggingConfiguration(this, "Logging", {
+      resourceArn: this.webAcl.attrArn,
+      // The log group ARN without the trailing ":*"
+      logDestinationConfigs: [
+        stack.formatArn({
+          service: "logs",
+          resource: "log-group",
+          resourceName: this.logGroup.logGroupName,
+          arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+        }),
+      ],
+      redactedFields: [{ singleHeader: { Name: "authorization" } }],
+    });
+    logging.node.addDependency(this.logGroup);
+  }
+
+  /**
+   * Requests blocked by `rule` (a name from ruleNames), or by any rule.
+   */
+  public metricBlockedRequests(
+    rule = "ALL",
+    props?: cloudwatch.MetricOptions,
+  ): cloudwatch.Metric {
+    return this.metric("BlockedRequests", rule, props);
+  }
+
+  /**
+   * Requests that passed every rule.
+   */
+  public metricAllowedRequests(
+    props?: cloudwatch.MetricOptions,
+  ): cloudwatch.Metric {
+    return this.metric("AllowedRequests", "ALL", props);
+  }
+
+  private metric(
+    metricName: string,
+    rule: string,
+    props?: cloudwatch.MetricOptions,
+  ): cloudwatch.Metric {
+    return new cloudwatch.Metric({
+      namespace: "AWS/WAFV2",
+      metricName,
+      dimensionsMap: {
+        WebACL: this.webAclName,
+        Region: cdk.Stack.of(this).region,
+        Rule: rule,
+      },
+      statistic: "Sum",
+      period: cdk.Duration.minutes(5),
+      ...props,
+    });
+  }
+}
@@ -0,0 +1,20 @@
+// Forces a new deployment of an ECS service (EngineStack), so running tasks
+// are replaced and read their secrets again, e.g. after a database credential
+// rotation. Triggered by EventBridge; runs on the Lambda Node.js runtime,
+// which bundles the AWS SDK v3.
+import { ECSClient, UpdateServiceCommand } from "@aws-sdk/client-ecs";
+
+const ecs = new ECSClient({});
+
+export async function handler(event) {
+  console.log(
+    `${event["detail-type"]} ${event.detail?.eventName ?? ""}: redeploying ${process.env.SERVICE}`,
+  );
+  await ecs.send(
+    new UpdateServiceCommand({
+      cluster: process.env.CLUSTER,
+      service: process.env.SERVICE,
+      forceNewDeployment: true,
+    }),
+  );
+}
@@ -0,0 +1,468 @@
+import * as cdk from "aws-cdk-lib";
+import { Construct } from "constructs";
+
+import * as cloudwatch from "aws-cdk-lib/aws-cloudwatch";
+import * as cwactions from "aws-cdk-lib/aws-cloudwatch-actions";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as efs from "aws-cdk-lib/aws-efs";
+import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import * as events from "aws-cdk-lib/aws-events";
+import * as eventstargets from "aws-cdk-lib/aws-events-targets";
+import * as rds from "aws-cdk-lib/aws-rds";
+import * as sns from "aws-cdk-lib/aws-sns";
+import * as subscriptions from "aws-cdk-lib/aws-sns-subscriptions";
+import { EngineWaf } from "./engine-waf";
+
+export interface MonitoringThresholds {
+  alb5xxPerMinute?: number; // default 5
+  unhealthyHosts?: number; // default 1
+  rdsCpuPercent?: number; // default 80
+  rdsFreeStorageGiB?: number; // default 5 (instance)
+  rdsAcuPercent?: number; // default 90 (Aurora Serverless v2)
+  rdsConnections?: number; // default 70 (t3.micro allows ~80)
+  efsBurstCreditTiB?: number; // default 1
+  wafBlockedPer5Min?: number; // default 500
+}
+
+export interface MonitoringStackProps extends cdk.StackProps {
+  // From EngineStack
+  engineService: ecs.BaseService;
+  loadBalancer: elbv2.ApplicationLoadBalancer;
+  targetGroup: elbv2.ApplicationTargetGroup;
+  greenTargetGroup?: elbv2.ApplicationTargetGroup; // blue/green deployments
+  engineWaf?: EngineWaf;
+
+  // From DatabaseStack: the instance or the Aurora cluster
+  rdsInstance?: rds.DatabaseInstance;
+  rdsCluster?: rds.DatabaseCluster;
+
+  // From DogecoinStack
+  dogecoinServices: ecs.BaseService[]; // one per node
+  dogecoinFileSystem?: efs.IFileSystem; // absent when the node runs on EC2/EBS
+  dogecoinSyncLagAlarm?: cloudwatch.IAlarm;
+  dogecoinSyncMetrics?: cloudwatch.Metric[]; // graphed on the dashboard
+
+  // Alarm notifications
+  alarmEmails?: string[];
+  // HTTPS endpoints that confirm the SNS subscription themselves (e.g. paging
+  // services with an SNS integration); Slack, Teams or Chime webhooks can't
+  alarmWebhookUrls?: string[];
+
+  thresholds?: MonitoringThresholds;
+}
+
+/**
+ * MonitoringStack
+ * - One CloudWatch dashboard covering the Engine, ALB, WAF, RDS, Dogecoin node
+ *   and EFS
+ * - Alarms for ALB 5xx, unhealthy hosts, WAF blocked requests, RDS CPU/storage
+ *   (or Aurora ACU utilization)/connections, EFS burst credits and ECS task
+ *   restarts
+ * - Routes alarms and task-stopped events to an SNS topic with optional
+ *   email/HTTPS subscriptions
+ */
+export class MonitoringStack extends cdk.Stack {
+  public readonly alarmTopic: sns.Topic;
+  public readonly dashboard: cloudwatch.Dashboard;
+
+  constructor(scope: Construct, id: string, props: MonitoringStackProps) {
+    super(scope, id, props);
+
+    const thresholds = props.thresholds ?? {};
+
+    //
+    // Notifications
+    //
+    this.alarmTopic = new sns.Topic(this, "AlarmTopic", {
+      displayName: "Fractal Engine alarms",
+    });
+    for (const email of props.alarmEmails ?? []) {
+      this.alarmTopic.addSubscription(
+        new subscriptions.EmailSubscription(email),
+      );
+    }
+    for (const url of props.alarmWebhookUrls ?? []) {
+      this.alarmTopic.addSubscription(
+        new subscriptions.UrlSubscription(url, {
+          protocol: sns.SubscriptionProtocol.HTTPS,
+        }),
+      );
+    }
+
+    const alarmAction = new cwactions.SnsAction(this.alarmTopic);
+    const alarms: cloudwatch.IAlarm[] = [];
+    const addAlarm = (
+      alarmId: string,
+      description: string,
+      options: cloudwatch.AlarmProps,
+    ) => {
+      const alarm = new cloudwatch.Alarm(this, alarmId, {
+        alarmDescription: description,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+        ...options,
+      });
+      alarm.addAlarmAction(alarmAction);
+      alarm.addOkAction(alarmAction);
+      alarms.push(alarm);
+      return alarm;
+    };
+
+    //
+    // Metrics
+    //
+    const period = cdk.Duration.minutes(1);
+
+    const alb5xx = new cloudwatch.MathExpression({
+      label: "ALB + target 5xx",
+      expression: props.greenTargetGroup
+        ? "FILL(elb, 0) + FILL(target, 0) + FILL(green, 0)"
+        : "FILL(elb, 0) + FILL(target, 0)",
+      usingMetrics: {
+        elb: props.loadBalancer.metrics.httpCodeElb(
+          elbv2.HttpCodeElb.ELB_5XX_COUNT,
+          { period, statistic: "Sum" },
+        ),
+        target: props.targetGroup.metrics.httpCodeTarget(
+          elbv2.HttpCodeTarget.TARGET_5XX_COUNT,
+          { period, statistic: "Sum" },
+        ),
+        ...(props.greenTargetGroup
+          ? {
+              green: props.greenTargetGroup.metrics.httpCodeTarget(
+                elbv2.HttpCodeTarget.TARGET_5XX_COUNT,
+                { period, statistic: "Sum" },
+              ),
+            }
+          : {}),
+      },
+      period,
+    });
+    // Either target group may be live after a blue/green deployment
+    const blueUnhealthy = props.targetGroup.metrics.unhealthyHostCount({
+      period,
+      statistic: "Maximum",
+    });
+    const unhealthyHosts: cloudwatch.IMetric = props.greenTargetGroup
+      ? new cloudwatch.MathExpression({
+          label: "UnHealthyHostCount",
+          expression: "FILL(blue, 0) + FILL(green, 0)",
+          usingMetrics: {
+            blue: blueUnhealthy,
+            green: props.greenTargetGroup.metrics.unhealthyHostCount({
+              period,
+              statistic: "Maximum",
+            }),
+          },
+          period,
+        })
+      : blueUnhealthy;
+    const requestCount = props.loadBalancer.metrics.requestCount({
+      period,
+      statistic: "Sum",
+    });
+    const responseTime = props.loadBalancer.metrics.targetResponseTime({
+      period,
+      statistic: "p95",
+    });
+
+    const database = props.rdsInstance ?? props.rdsCluster;
+    if (!database) {
+      throw new Error(`${id}: set rdsInstance or rdsCluster`);
+    }
+    const rdsCpu = database.metricCPUUtilization({
+      period: cdk.Duration.minutes(5),
+    });
+    const rdsConnections = database.metricDatabaseConnections({
+      period: cdk.Duration.minutes(5),
+      statistic: "Maximum",
+    });
+    // Instances run out of disk; Aurora Serverless v2 runs out of capacity
+    const rdsFreeStorage = props.rdsInstance?.metricFreeStorageSpace({
+      period: cdk.Duration.minutes(5),
+      statistic: "Minimum",
+    });
+    const rdsAcu = props.rdsCluster?.metricACUUtilization({
+      period: cdk.Duration.minutes(5),
+      statistic: "Maximum",
+    });
+
+    const efsMetric = (metricName: string, statistic: string) =>
+      props.dogecoinFileSystem
+        ? new cloudwatch.Metric({
+            namespace: "AWS/EFS",
+            metricName,
+            dimensionsMap: {
+              FileSystemId: props.dogecoinFileSystem.fileSystemId,
+            },
+            period: cdk.Duration.minutes(5),
+            statistic,
+          })
+        : undefined;
+    const efsBurstCredits = efsMetric("BurstCreditBalance", "Minimum");
+    const efsThroughput = efsMetric("MeteredIOBytes", "Sum");
+
+    //
+    // Alarms
+    //
+    addAlarm("Alb5xxAlarm", "Engine ALB or targets returning 5xx", {
+      metric: alb5xx,
+      threshold: thresholds.alb5xxPerMinute ?? 5,
+      evaluationPeriods: 5,
+      datapointsToAlarm: 3,
+      comparisonOperator:
+        cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+    });
+    addAlarm("UnhealthyHostsAlarm", "Engine targets failing /health", {
+      metric: unhealthyHosts,
+      threshold: thresholds.unhealthyHosts ?? 1,
+      evaluationPeriods: 3,
+      comparisonOperator:
+        cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+    });
+    addAlarm("RdsCpuAlarm", "RDS CPU utilization is high", {
+      metric: rdsCpu,
+      threshold: thresholds.rdsCpuPercent ?? 80,
+      evaluationPeriods: 3,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+    });
+    if (rdsFreeStorage) {
+      addAlarm("RdsFreeStorageAlarm", "RDS free storage is running low", {
+        metric: rdsFreeStorage,
+        threshold: (thresholds.rdsFreeStorageGiB ?? 5) * 1024 ** 3,
+        evaluationPeriods: 1,
+        comparisonOperator: cloudwatch.ComparisonOperator.LESS_THAN_THRESHOLD,
+      });
+    }
+    if (rdsAcu) {
+      addAlarm("RdsAcuAlarm", "Aurora is close to its maximum ACUs", {
+        metric: rdsAcu,
+        threshold: thresholds.rdsAcuPercent ?? 90,
+        evaluationPeriods: 3,
+        comparisonOperator:
+          cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+      });
+    }
+    addAlarm("RdsConnectionsAlarm", "RDS connection count is high", {
+      metric: rdsConnections,
+      threshold: thresholds.rdsConnections ?? 70,
+      evaluationPeriods: 3,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+    });
+    if (props.engineWaf) {
+      // A spike in blocked requests usually means someone is hammering the API
+      addAlarm("WafBlockedRequestsAlarm", "WAF is blocking many requests", {
+        metric: props.engineWaf.metricBlockedRequests(),
+        threshold: thresholds.wafBlockedPer5Min ?? 500,
+        evaluationPeriods: 2,
+        comparisonOperator:
+          cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+      });
+    }
+    if (efsBurstCredits) {
+      addAlarm("EfsBurstCreditAlarm", "Dogecoin EFS burst credits are low", {
+        metric: efsBurstCredits,
+        threshold: (thresholds.efsBurstCreditTiB ?? 1) * 1024 ** 4,
+        evaluationPeriods: 3,
+        comparisonOperator: cloudwatch.ComparisonOperator.LESS_THAN_THRESHOLD,
+      });
+    }
+
+    // A service running fewer tasks than desired for several minutes means
+    // tasks are crashing and being replaced (Container Insights metrics)
+    const services: [string, ecs.BaseService][] = [
+      ["Engine", props.engineService],
+      ...props.dogecoinServices.map((service, i): [string, ecs.BaseService] => [
+        `Dogecoin${i === 0 ? "" : i}`,
+        service,
+      ]),
+    ];
+    for (const [name, service] of services) {
+      addAlarm(`${name}TaskShortfallAlarm`, `${name} tasks keep stopping`, {
+        metric: this.taskShortfall(service),
+        threshold: 1,
+        evaluationPeriods: 5,
+        comparisonOperator:
+          cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      });
+    }
+
+    // Every unexpected task stop goes to the topic straight away
+    new events.Rule(this, "TaskStoppedRule", {
+      description: "Engine or Dogecoin task stopped unexpectedly",
+      eventPattern: {
+        source: ["aws.ecs"],
+        detailType: ["ECS Task State Change"],
+        detail: {
+          clusterArn: [
+            props.engineService.cluster.clusterArn,
+            props.dogecoinServices[0].cluster.clusterArn,
+          ],
+          lastStatus: ["STOPPED"],
+          stopCode: ["EssentialContainerExited", "TaskFailedToStart"],
+        },
+      },
+      targets: [new eventstargets.SnsTopic(this.alarmTopic)],
+    });
+
+    // The sync-lag alarm lives in DogecoinStack; forward its state changes here
+    // (an alarm action would make DogecoinStack depend on this stack)
+    if (props.dogecoinSyncLagAlarm) {
+      alarms.push(props.dogecoinSyncLagAlarm);
+      new events.Rule(this, "SyncLagAlarmRule", {
+        description: "Dogecoin sync-lag alarm changed state",
+        eventPattern: {
+          source: ["aws.cloudwatch"],
+          detailType: ["CloudWatch Alarm State Change"],
+          resources: [props.dogecoinSyncLagAlarm.alarmArn],
+        },
+        targets: [new eventstargets.SnsTopic(this.alarmTopic)],
+      });
+    }
+
+    //
+    // Dashboard
+    //
+    this.dashboard = new cloudwatch.Dashboard(this, "Dashboard", {
+      dashboardName: `${this.stackName}-fractal`,
+      defaultInterval: cdk.Duration.hours(6),
+    });
+
+    this.dashboard.addWidgets(
+      new cloudwatch.AlarmStatusWidget({
+        title: "Alarms",
+        alarms,
+        width: 24,
+      }),
+    );
+    this.dashboard.addWidgets(
+      new cloudwatch.GraphWidget({
+        title: "Engine requests",
+        left: [requestCount],
+        right: [alb5xx],
+        width: 8,
+      }),
+      new cloudwatch.GraphWidget({
+        title: "Engine p95 response time",
+        left: [responseTime],
+        right: [unhealthyHosts],
+        width: 8,
+      }),
+      new cloudwatch.GraphWidget({
+        title: "Engine CPU / memory",
+        left: [
+          props.engineService.metricCpuUtilization(),
+          props.engineService.metricMemoryUtilization(),
+        ],
+        width: 8,
+      }),
+    );
+    if (props.engineWaf) {
+      const waf = props.engineWaf;
+      this.dashboard.addWidgets(
+        new cloudwatch.GraphWidget({
+          title: "WAF allowed / blocked",
+          left: [waf.metricAllowedRequests()],
+          right: [waf.metricBlockedRequests()],
+          width: 12,
+        }),
+        new cloudwatch.GraphWidget({
+          title: "WAF blocked by rule",
+          left: waf.ruleNames.map((rule) =>
+            waf.metricBlockedRequests(rule, { label: rule }),
+          ),
+          width: 12,
+        }),
+      );
+    }
+    this.dashboard.addWidgets(
+      new cloudwatch.GraphWidget({
+        title: "RDS CPU",
+        left: [rdsCpu],
+        width: 8,
+      }),
+      new cloudwatch.GraphWidget({
+        title: rdsFreeStorage ? "RDS free storage" : "Aurora ACU utilization",
+        left: [(rdsFreeStorage ?? rdsAcu) as cloudwatch.IMetric],
+        width: 8,
+      }),
+      new cloudwatch.GraphWidget({
+        title: "RDS connections",
+        left: [rdsConnections],
+        width: 8,
+      }),
+    );
+    const dogecoinWidgets: cloudwatch.IWidget[] = [
+      new cloudwatch.GraphWidget({
+        title: "Dogecoin CPU / memory",
+        left: props.dogecoinServices.flatMap((service) => [
+          service.metricCpuUtilization(),
+          service.metricMemoryUtilization(),
+        ]),
+        width: 8,
+      }),
+    ];
+    if (efsBurstCredits && efsThroughput) {
+      dogecoinWidgets.push(
+        new cloudwatch.GraphWidget({
+          title: "EFS burst credits",
+          left: [efsBurstCredits],
+          width: 8,
+        }),
+        new cloudwatch.GraphWidget({
+          title: "EFS metered IO",
+          left: [efsThroughput],
+          width: 8,
+        }),
+      );
+    }
+    this.dashboard.addWidgets(...dogecoinWidgets);
+    if (props.dogecoinSyncMetrics?.length) {
+      this.dashboard.addWidgets(
+        ...props.dogecoinSyncMetrics.map(
+          (metric) =>
+            new cloudwatch.GraphWidget({
+              title: `Dogecoin ${metric.metricName}`,
+              left: [metric],
+              width: 6,
+            }),
+        ),
+      );
+    }
+
+    //
+    // Outputs
+    //
+    new cdk.CfnOutput(this, "AlarmTopicArn", {
+      value: this.alarmTopic.topicArn,
+    });
+    new cdk.CfnOutput(this, "DashboardName", {
+      value: this.dashboard.dashboardName,
+    });
+  }
+
+  // Desired minus running tasks, from Container Insights
+  private taskShortfall(service: ecs.BaseService): cloudwatch.IMetric {
+    const dimensionsMap = {
+      ClusterName: service.cluster.clusterName,
+      ServiceName: service.serviceName,
+    };
+    const metric = (metricName: string) =>
+      new cloudwatch.Metric({
+        namespace: "ECS/ContainerInsights",
+        metricName,
+        dimensionsMap,
+        period: cdk.Duration.minutes(1),
+        statistic: "Average",
+      });
+
+    return new cloudwatch.MathExpression({
+      label: "Desired - running tasks",
+      expression: "FILL(desired, 0) - FILL(running, 0)",
+      usingMetrics: {
+        desired: metric("DesiredTaskCount"),
+        running: metric("RunningTaskCount"),
+      },
+      period: cdk.Duration.minutes(1),
+    });
+  }
+}
@@ -2,12 +2,64 @@ import * as cdk from "aws-cdk-lib";
 import { Construct } from "constructs";
 import * as ec2 from "aws-cdk-lib/aws-ec2";
 import * as servicediscovery from "aws-cdk-lib/aws-servicediscovery";
+import {
+  Chain,
+  ChainProfile,
+  DogecoinPorts,
+  chainProfile,
+} from "./chain-profile";
+
+// VPC endpoints NetworkStack creates, by service name
+export const VPC_ENDPOINT_NAMES = [
+  "s3",
+  "ecr.dkr",
+  "ecr.api",
+  "logs",
+  "secretsmanager",
+  "ssm",
+  "ssmmessages",
+  "ec2messages",
+] as const;
+export type VpcEndpointName = (typeof VPC_ENDPOINT_NAMES)[number];
+
+/**
+ * An existing (e.g. centrally managed) VPC for NetworkStack to import instead
+ * of creating one.
+ */
+export interface ExistingVpcProps {
+  /**
+   * VPC to look up by ID. Otherwise vpcName and/or tags must match exactly one VPC.
+   */
+  vpcId?: string;
+  vpcName?: string;
+  tags?: Record<string, string>;
+
+  /**
+   * Subnet group names (the subnetGroupNameTag values) for each role. The
+   * subnets are imported as PUBLIC, PRIVATE_WITH_EGRESS (app) and
+   * PRIVATE_ISOLATED (data), so the other stacks select them unchanged. Only
+   * an internet-facing Engine ALB needs public subnets.
+   */
+  subnetGroups: { public?: string; app: string; data: string };
+
+  /**
+   * Subnet tag holding the group name. Defaults to aws-cdk:subnet-name.
+   */
+  subnetGroupNameTag?: string;
+
+  /**
+   * Endpoints the VPC already has; NetworkStack doesn't create these.
+   */
+  existingEndpoints?: VpcEndpointName[];
+}
 
 /**
  * NetworkStack sets up shared networking primitives:
- * - VPC with public, private-with-egress (app), and private-isolated (data) subnets
+ * - VPC with public, private-with-egress (app), and private-isolated (data)
+ *   subnets, or an existing VPC with its subnet groups mapped to those roles
  * - Useful VPC endpoints for private networking
- * - Security groups for ALB, Engine, RDS, and Dogecoin EC2
+ * - Security groups for ALB, Engine, RDS (and its optional proxy and secret
+ *   rotation function), and Dogecoin
  *
  * Deploy this stack first. Subsequent stacks (Dogecoin, Engine) should accept
  * references to the VPC and security groups from this stack.
@@ -22,47 +74,121 @@ export interface NetworkStackProps extends cdk.StackProps {
    * Number of NAT Gateways. Defaults to 1.
    */
   natGateways?: number;
+
+  /**
+   * Import this VPC instead of creating one; cidr and natGateways must be
+   * unset. The lookup needs a concrete account and region.
+   */
+  existingVpc?: ExistingVpcProps;
+
+  /**
+   * Dogecoin chain the node runs on. Picks the default node ports. Defaults to mainnet.
+   */
+  chain?: Chain;
+
+  /**
+   * Override individual Dogecoin ports (e.g. a custom ZMQ port).
+   */
+  dogecoinPorts?: Partial<DogecoinPorts>;
+
+  /**
+   * Port the Engine RPC listens on (EngineStack runtime.rpcPort). Defaults to 8891.
+   */
+  enginePort?: number;
+
+  /**
+   * Open 443 on the ALB security group for an HTTPS listener. Defaults to false.
+   */
+  enableHttps?: boolean;
+
+  /**
+   * Sources besides the VPC itself allowed to reach the ALB on 80 (and 443).
+   * Defaults to anywhere; an internal Engine ALB (EngineStack exposure)
+   * passes the client networks routed to it, or none.
+   */
+  albIngressCidrs?: string[];
+
+  /**
+   * Open the Engine blue/green test listener port (EngineStack
+   * blueGreen.testListenerPort) on the ALB security group to these CIDRs.
+   * Closed when unset.
+   */
+  engineTestListener?: { port: number; allowedCidrs: string[] };
+
+  /**
+   * Route Engine database traffic through an RDS Proxy (DatabaseStack proxy).
+   * Adds rdsProxySg and only lets the proxy reach RDS. Defaults to false.
+   */
+  enableRdsProxy?: boolean;
+
+  /**
+   * Let a Secrets Manager rotation function reach RDS (DatabaseStack rotation).
+   * Adds rdsRotationSg. Defaults to false.
+   */
+  enableDbRotation?: boolean;
 }
 
 export class NetworkStack extends cdk.Stack {
   // Shared network resources to be consumed by other stacks
-  public readonly vpc: ec2.Vpc;
+  public readonly vpc: ec2.IVpc;
   public readonly namespace: cdk.aws_servicediscovery.PrivateDnsNamespace;
 
   public readonly albSg: ec2.SecurityGroup;
   public readonly engineSg: ec2.SecurityGroup;
   public readonly rdsSg: ec2.SecurityGroup;
+  public readonly rdsProxySg?: ec2.SecurityGroup;
+  public readonly rdsRotationSg?: ec2.SecurityGroup;
   public readonly dogeSg: ec2.SecurityGroup;
 
+  // Chain and ports used for the Dogecoin rules; pass to DogecoinStack
+  public readonly chainProfile: ChainProfile;
+
   constructor(scope: Construct, id: string, props?: NetworkStackProps) {
     super(scope, id, props);
 
+    this.chainProfile = chainProfile(
+      props?.chain ?? "mainnet",
+      props?.dogecoinPorts,
+    );
+
     //
     // VPC
     //
-    this.vpc = new ec2.Vpc(this, "FractalVpc", {
-      ipAddresses: ec2.IpAddresses.cidr(props?.cidr ?? "10.0.0.0/16"),
-      natGateways: props?.natGateways ?? 1,
-      enableDnsHostnames: true,
-      enableDnsSupport: true,
-      subnetConfiguration: [
-        {
-          name: "public",
-          subnetType: ec2.SubnetType.PUBLIC,
-          cidrMask: 24,
-        },
-        {
-          name: "app",
-          subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
-          cidrMask: 24,
-        },
-        {
-          name: "data",
-          subnetType: ec2.SubnetType.PRIVATE_ISOLATED,
-          cidrMask: 24,
-        },
-      ],
-    });
+    let vpcCidr: string;
+    if (props?.existingVpc) {
+      if (props.cidr !== undefined || props.natGateways !== undefined) {
+        throw new Error(
+          `${id}: cidr and natGateways can't be set with existingVpc`,
+        );
+      }
+      this.vpc = this.importVpc(props.existingVpc);
+      vpcCidr = this.vpc.vpcCidrBlock;
+    } else {
+      vpcCidr = props?.cidr ?? "10.0.0.0/16";
+      this.vpc = new ec2.Vpc(this, "FractalVpc", {
+        ipAddresses: ec2.IpAddresses.cidr(vpcCidr),
+        natGateways: props?.natGateways ?? 1,
+        enableDnsHostnames: true,
+        enableDnsSupport: true,
+        subnetConfiguration: [
+          {
+            name: "public",
+            subnetType: ec2.SubnetType.PUBLIC,
+            cidrMask: 24,
+          },
+          {
+            name: "app",
+            subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
+            cidrMask: 24,
+          },
+          {
+            name: "data",
+            subnetType: ec2.SubnetType.PRIVATE_ISOLATED,
+            cidrMask: 24,
+          },
+        ],
+      });
+    }
 
     this.namespace = new servicediscovery.PrivateDnsNamespace(
       this,
@@ -75,48 +201,63 @@ export class NetworkStack extends cdk.Stack {
     );
 
     //
-    // VPC Endpoints (recommended for private networking)
+    // VPC Endpoints (recommended for private networking), except those an
+    // existing VPC already has
     //
-    this.vpc.addGatewayEndpoint("S3Endpoint", {
-      service: ec2.GatewayVpcEndpointAwsService.S3,
-      subnets: [
-        { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS },
-        { subnetType: ec2.SubnetType.PRIVATE_ISOLATED },
-      ],
-    });
-
-    this.vpc.addInterfaceEndpoint("EcrDockerEndpoint", {
-      service: ec2.InterfaceVpcEndpointAwsService.ECR_DOCKER,
-      subnets: { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS },
-    });
-
-    this.vpc.addInterfaceEndpoint("EcrApiEndpoint", {
-      service: ec2.InterfaceVpcEndpointAwsService.ECR,
-      subnets: { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS },
-    });
-
-    this.vpc.addInterfaceEndpoint("LogsEndpoint", {
-      service: ec2.InterfaceVpcEndpointAwsService.CLOUDWATCH_LOGS,
-      subnets: { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS },
-    });
-
-    this.vpc.addInterfaceEndpoint("SecretsManagerEndpoint", {
-      service: ec2.InterfaceVpcEndpointAwsService.SECRETS_MANAGER,
-      subnets: { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS },
-    });
+    const existingEndpoints = new Set(
+      props?.existingVpc?.existingEndpoints ?? [],
+    );
+    if (!existingEndpoints.has("s3")) {
+      this.vpc.addGatewayEndpoint("S3Endpoint", {
+        service: ec2.GatewayVpcEndpointAwsService.S3,
+        subnets: [
+          { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS },
+          { subnetType: ec2.SubnetType.PRIVATE_ISOLATED },
+        ],
+      });
+    }
 
-    this.vpc.addInterfaceEndpoint("SsmEndpoint", {
-      service: ec2.InterfaceVpcEndpointAwsService.SSM,
-      subnets: { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS },
-    });
-    this.vpc.addInterfaceEndpoint("SsmMessagesEndpoint", {
-      service: ec2.InterfaceVpcEndpointAwsService.SSM_MESSAGES,
-      subnets: { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS },
-    });
-    this.vpc.addInterfaceEndpoint("Ec2MessagesEndpoint", {
-      service: ec2.InterfaceVpcEndpointAwsService.EC2_MESSAGES,
-      subnets: { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS },
-    });
+    const interfaceEndpoints: [
+      VpcEndpointName,
+      string,
+      ec2.InterfaceVpcEndpointAwsService,
+    ][] = [
+      [
+        "ecr.dkr",
+        "EcrDockerEndpoint",
+        ec2.InterfaceVpcEndpointAwsService.ECR_DOCKER,
+      ],
+      ["ecr.api", "EcrApiEndpoint", ec2.InterfaceVpcEndpointAwsService.ECR],
+      [
+        "logs",
+        "LogsEndpoint",
+        ec2.InterfaceVpcEndpointAwsService.CLOUDWATCH_LOGS,
+      ],
+      [
+        "secretsmanager",
+        "SecretsManagerEndpoint",
+        ec2.InterfaceVpcEndpointAwsService.SECRETS_MANAGER,
+      ],
+      ["ssm", "SsmEndpoint", ec2.InterfaceVpcEndpointAwsService.SSM],
+      [
+        "ssmmessages",
+        "SsmMessagesEndpoint",
+        ec2.InterfaceVpcEndpointAwsService.SSM_MESSAGES,
+      ],
+      [
+        "ec2messages",
+        "Ec2MessagesEndpoint",
+        ec2.InterfaceVpcEndpointAwsService.EC2_MESSAGES,
+      ],
+    ];
+    for (const [name, endpointId, service] of interfaceEndpoints) {
+      if (!existingEndpoints.has(name)) {
+        this.vpc.addInterfaceEndpoint(endpointId, {
+          service,
+          subnets: { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS },
+        });
+      }
+    }
 
     //
     // Security Groups
@@ -126,13 +267,28 @@ export class NetworkStack extends cdk.Stack {
       description: "ALB security group",
       allowAllOutbound: true,
     });
-    this.albSg.addIngressRule(
-      ec2.Peer.anyIpv4(),
-      ec2.Port.tcp(80),
-      "HTTP from anywhere",
-    );
-    // If/when TLS is used, open 443 as well (uncomment below once certs are configured)
-    // this.albSg.addIngressRule(ec2.Peer.anyIpv4(), ec2.Port.tcp(443), "HTTPS from anywhere");
+    const albPeers = props?.albIngressCidrs
+      ? [vpcCidr, ...props.albIngressCidrs].map((cidr) => ec2.Peer.ipv4(cidr))
+      : [ec2.Peer.anyIpv4()];
+    for (const peer of albPeers) {
+      const from = props?.albIngressCidrs ? peer.uniqueId : "anywhere";
+      this.albSg.addIngressRule(peer, ec2.Port.tcp(80), `HTTP from ${from}`);
+      // Open 443 once the Engine has a certificate (EngineStack domainName)
+      if (props?.enableHttps) {
+        this.albSg.addIngressRule(
+          peer,
+          ec2.Port.tcp(443),
+          `HTTPS from ${from}`,
+        );
+      }
+    }
+    for (const cidr of props?.engineTestListener?.allowedCidrs ?? []) {
+      this.albSg.addIngressRule(
+        ec2.Peer.ipv4(cidr),
+        ec2.Port.tcp(props?.engineTestListener?.port as number),
+        "Engine blue/green test listener",
+      );
+    }
 
     this.engineSg = new ec2.SecurityGroup(this, "EngineSg", {
       vpc: this.vpc,
@@ -155,32 +311,70 @@ export class NetworkStack extends cdk.Stack {
     // Engine inbound from ALB (Engine RPC)
     this.engineSg.addIngressRule(
       this.albSg,
-      ec2.Port.tcp(8891),
+      ec2.Port.tcp(props?.enginePort ?? 8891),
       "Engine RPC from ALB only",
     );
 
-    // RDS inbound from Engine
-    this.rdsSg.addIngressRule(
-      this.engineSg,
-      ec2.Port.tcp(5432),
-      "Postgres from Engine only",
-    );
+    // RDS inbound from Engine, directly or through the proxy
+    if (props?.enableRdsProxy) {
+      this.rdsProxySg = new ec2.SecurityGroup(this, "RdsProxySg", {
+        vpc: this.vpc,
+        description: "RDS Proxy security group",
+        allowAllOutbound: false,
+      });
+      this.rdsProxySg.addIngressRule(
+        this.engineSg,
+        ec2.Port.tcp(5432),
+        "Postgres from Engine only",
+      );
+      this.rdsProxySg.addEgressRule(
+        this.rdsSg,
+        ec2.Port.tcp(5432),
+        "Postgres to RDS only",
+      );
+      this.rdsSg.addIngressRule(
+        this.rdsProxySg,
+        ec2.Port.tcp(5432),
+        "Postgres from RDS Proxy only",
+      );
+    } else {
+      this.rdsSg.addIngressRule(
+        this.engineSg,
+        ec2.Port.tcp(5432),
+        "Postgres from Engine only",
+      );
+    }
+
+    // RDS inbound from the credential rotation function, which also needs
+    // Secrets Manager (VPC endpoint)
+    if (props?.enableDbRotation) {
+      this.rdsRotationSg = new ec2.SecurityGroup(this, "RdsRotationSg", {
+        vpc: this.vpc,
+        description: "RDS credential rotation function security group",
+        allowAllOutbound: true,
+      });
+      this.rdsSg.addIngressRule(
+        this.rdsRotationSg,
+        ec2.Port.tcp(5432),
+        "Postgres from the rotation function",
+      );
+    }
 
     // Dogecoin inbound from Engine
     this.dogeSg.addIngressRule(
       this.engineSg,
-      ec2.Port.tcp(22555),
+      ec2.Port.tcp(this.chainProfile.rpcPort),
       "Dogecoin RPC from Engine only",
     );
     this.dogeSg.addIngressRule(
       this.engineSg,
-      ec2.Port.tcp(22556),
+      ec2.Port.tcp(this.chainProfile.p2pPort),
       "Dogecoin P2P from Engine only",
     );
     // Allow ZMQ from Engine
     this.dogeSg.addIngressRule(
       this.engineSg,
-      ec2.Port.tcp(28000),
+      ec2.Port.tcp(this.chainProfile.zmqPort),
       "Dogecoin ZMQ from Engine only",
     );
 
@@ -193,9 +387,106 @@ export class NetworkStack extends cdk.Stack {
       value: this.engineSg.securityGroupId,
     });
     new cdk.CfnOutput(this, "RdsSgId", { value: this.rdsSg.securityGroupId });
+    if (this.rdsProxySg) {
+      new cdk.CfnOutput(this, "RdsProxySgId", {
+        value: this.rdsProxySg.securityGroupId,
+      });
+    }
+    if (this.rdsRotationSg) {
+      new cdk.CfnOutput(this, "RdsRotationSgId", {
+        value: this.rdsRotationSg.securityGroupId,
+      });
+    }
     new cdk.CfnOutput(this, "DogeSgId", { value: this.dogeSg.securityGroupId });
     new cdk.CfnOutput(this, "NamespaceId", {
       value: this.namespace.namespaceId,
     });
   }
+
+  // Looks the VPC up, then re-imports its subnet groups under the roles the
+  // other stacks select by subnet type
+  private importVpc(existing: ExistingVpcProps): ec2.IVpc {
+    if (!existing.vpcId && !existing.vpcName && !existing.tags) {
+      throw new Error(
+        `${this.node.id}: existingVpc needs a vpcId, vpcName or tags`,
+      );
+    }
+    const lookedUp = ec2.Vpc.fromLookup(this, "LookedUpVpc", {
+      vpcId: existing.vpcId,
+      vpcName: existing.vpcName,
+      tags: existing.tags,
+      subnetGroupNameTag: existing.subnetGroupNameTag,
+    });
+    // Throws for a group the VPC doesn't have
+    const group = (name?: string) =>
+      name === undefined
+        ? []
+        : lookedUp.selectSubnets({ subnetGroupName: name }).subnets;
+    const publicSubnets = group(existing.subnetGroups.public);
+    const appSubnets = group(existing.subnetGroups.app);
+    const dataSubnets = group(existing.subnetGroups.data);
+    // Until the lookup is cached, fromLookup returns a placeholder VPC with
+    // no such groups; synth then reruns with the real subnets
+    if (appSubnets.length === 0) {
+      return lookedUp;
+    }
+
+    // fromVpcAttributes gives a group's subnets the AZs round-robin, so every
+    // group is put in the app subnets' AZ order, one subnet per AZ at a time.
+    // Subnets in other AZs are left out; a group missing an app AZ, or with
+    // more subnets in one AZ than another, can't be imported.
+    const availabilityZones = [
+      ...new Set(appSubnets.map((subnet) => subnet.availabilityZone)),
+    ];
+    const inAppAzs = (name: string | undefined, subnets: ec2.ISubnet[]) => {
+      if (subnets.length === 0) {
+        return subnets;
+      }
+      const byAz = availabilityZones.map((az) =>
+        subnets.filter((subnet) => subnet.availabilityZone === az),
+      );
+      if (
+        byAz[0].length === 0 ||
+        byAz.some((azSubnets) => azSubnets.length !== byAz[0].length)
+      ) {
+        const counts = availabilityZones.map(
+          (az, i) => `${byAz[i].length} in ${az}`,
+        );
+        throw new Error(
+          `${this.node.id}: existingVpc subnet group "${name}" needs the same number of subnets in each app AZ, but has ${counts.join(", ")}`,
+        );
+      }
+      const left = subnets.filter(
+        (subnet) => !availabilityZones.includes(subnet.availabilityZone),
+      );
+      if (left.length > 0) {
+        cdk.Annotations.of(this).addWarningV2(
+          "fractal:existingVpcSubnetOutsideAppAzs",
+          `existingVpc subnet group "${name}" leaves out ${left.map((subnet) => subnet.subnetId).join(", ")}, outside the app AZs`,
+        );
+      }
+      return byAz[0].flatMap((_, k) => byAz.map((azSubnets) => azSubnets[k]));
+    };
+    const publicInAzs = inAppAzs(existing.subnetGroups.public, publicSubnets);
+    const appInAzs = inAppAzs(existing.subnetGroups.app, appSubnets);
+    const dataInAzs = inAppAzs(existing.subnetGroups.data, dataSubnets);
+
+    return ec2.Vpc.fromVpcAttributes(this, "FractalVpc", {
+      vpcId: lookedUp.vpcId,
+      vpcCidrBlock: lookedUp.vpcCidrBlock,
+      availabilityZones,
+      publicSubnetIds: publicInAzs.map((subnet) => subnet.subnetId),
+      publicSubnetRouteTableIds: publicInAzs.map(
+        (subnet) => subnet.routeTable.routeTableId,
+      ),
+      privateSubnetIds: appInAzs.map((subnet) => subnet.subnetId),
+      privateSubnetRouteTableIds: appInAzs.map(
+        (subnet) => subnet.routeTable.routeTableId,
+      ),
+      isolatedSubnetIds: dataInAzs.map((subnet) => subnet.subnetId),
+      isolatedSubnetRouteTableIds: dataInAzs.map(
+        (subnet) => subnet.routeTable.routeTableId,
+      ),
+    });
+  }
 }
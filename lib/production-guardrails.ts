@@ -0,0 +1,193 @@
+import * as cdk from "aws-cdk-lib";
+import { IConstruct } from "constructs";
+
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as rds from "aws-cdk-lib/aws-rds";
+
+export type GuardrailRule =
+  | "database-deletion-protection"
+  | "database-removal-policy"
+  | "log-group-removal-policy"
+  | "engine-cors-wildcard"
+  | "http-only-listener";
+
+export const GUARDRAIL_RULES: GuardrailRule[] = [
+  "database-deletion-protection",
+  "database-removal-policy",
+  "log-group-removal-policy",
+  "engine-cors-wildcard",
+  "http-only-listener",
+];
+
+export interface GuardrailSuppression {
+  rule: GuardrailRule;
+  // Construct path, e.g. "EngineStack/FractalAlb"; covers everything below it
+  path: string;
+  // Why the violation is acceptable; shown in the synth output
+  reason: string;
+}
+
+export interface ProductionGuardrailsProps {
+  suppressions?: GuardrailSuppression[];
+}
+
+// Metadata type for suppressions added in code with suppressGuardrail()
+const SUPPRESSION_METADATA = "fractal:guardrail-suppression";
+
+/**
+ * Suppresses `rule` for `scope` and everything below it. The reason is
+ * recorded in the cloud assembly metadata and echoed at synth time.
+ */
+export function suppressGuardrail(
+  scope: IConstruct,
+  rule: GuardrailRule,
+  reason: string,
+) {
+  if (reason.trim() === "") {
+    throw new Error(
+      `${scope.node.path}: suppressing ${rule} requires a reason`,
+    );
+  }
+  scope.node.addMetadata(SUPPRESSION_METADATA, { rule, reason });
+}
+
+/**
+ * ProductionGuardrails
+ * - Aspect for production stages: checks every CloudFormation resource for
+ *   settings that are fine for a demo but unsafe on mainnet
+ * - Each violation is an error annotation on the offending resource, so synth
+ *   fails with one line per problem
+ * - Violations can be suppressed per resource, with a reason, either in code
+ *   (suppressGuardrail) or by construct path (props.suppressions)
+ */
+export class ProductionGuardrails implements cdk.IAspect {
+  private readonly suppressions: GuardrailSuppression[];
+
+  constructor(props: ProductionGuardrailsProps = {}) {
+    for (const suppression of props.suppressions ?? []) {
+      if (suppression.reason.trim() === "") {
+        throw new Error(
+          `Guardrail suppression of ${suppression.rule} at ${suppression.path} requires a reason`,
+        );
+      }
+    }
+    this.suppressions = props.suppressions ?? [];
+  }
+
+  public visit(node: IConstruct): void {
+    if (!(node instanceof cdk.CfnResource)) {
+      return;
+    }
+
+    for (const [rule, message] of violations(node)) {
+      const reason = this.suppressionReason(node, rule);
+      if (reason !== undefined) {
+        cdk.Annotations.of(node).addInfo(`[${rule}] suppressed: ${reason}`);
+      } else {
+        cdk.Annotations.of(node).addError(
+          `[${rule}] ${message} (suppress with a reason if intended)`,
+        );
+      }
+    }
+  }
+
+  private suppressionReason(
+    node: cdk.CfnResource,
+    rule: GuardrailRule,
+  ): string | undefined {
+    const path = node.node.path;
+    const byPath = this.suppressions.find(
+      (s) =>
+        s.rule === rule && (path === s.path || path.startsWith(`${s.path}/`)),
+    );
+    if (byPath) {
+      return byPath.reason;
+    }
+
+    for (const scope of node.node.scopes) {
+      const entry = scope.node.metadata.find(
+        (m) => m.type === SUPPRESSION_METADATA && m.data.rule === rule,
+      );
+      if (entry) {
+        return entry.data.reason;
+      }
+    }
+    return undefined;
+  }
+}
+
+//
+// Rules
+//
+function violations(node: cdk.CfnResource): [GuardrailRule, string][] {
+  const found: [GuardrailRule, string][] = [];
+  const stack = cdk.Stack.of(node);
+  const deletes =
+    node.cfnOptions.deletionPolicy === cdk.CfnDeletionPolicy.DELETE;
+
+  // Aurora member instances are covered by their cluster
+  const database =
+    node instanceof rds.CfnDBCluster ||
+    (node instanceof rds.CfnDBInstance && !node.dbClusterIdentifier);
+  if (database) {
+    const { deletionProtection } = node as rds.CfnDBCluster | rds.CfnDBInstance;
+    if (stack.resolve(deletionProtection) !== true) {
+      found.push([
+        "database-deletion-protection",
+        "database has deletion protection disabled",
+      ]);
+    }
+    if (deletes) {
+      found.push([
+        "database-removal-policy",
+        "database is deleted with its stack; use RemovalPolicy.SNAPSHOT or RETAIN",
+      ]);
+    }
+  }
+
+  if (node instanceof logs.CfnLogGroup && deletes) {
+    found.push([
+      "log-group-removal-policy",
+      "log group is deleted with its stack; use RemovalPolicy.RETAIN",
+    ]);
+  }
+
+  if (node instanceof ecs.CfnTaskDefinition) {
+    const containers: ecs.CfnTaskDefinition.ContainerDefinitionProperty[] =
+      stack.resolve(node.containerDefinitions) ?? [];
+    for (const container of containers) {
+      const env = (container.environment ??
+        []) as ecs.CfnTaskDefinition.KeyValuePairProperty[];
+      if (
+        env.some(
+          (e) =>
+            e.name === "CORS_ALLOWED_ORIGINS" &&
+            String(e.value).split(",").includes("*"),
+        )
+      ) {
+        found.push([
+          "engine-cors-wildcard",
+          `container ${container.name} allows CORS from any origin`,
+        ]);
+      }
+    }
+  }
+
+  if (
+    node instanceof elbv2.CfnListener &&
+    stack.resolve(node.protocol) === "HTTP"
+  ) {
+    const actions: elbv2.CfnListener.ActionProperty[] =
+      stack.resolve(node.defaultActions) ?? [];
+    if (actions.some((action) => action.type !== "redirect")) {
+      found.push([
+        "http-only-listener",
+        "listener serves plain HTTP; serve HTTPS and redirect port 80",
+      ]);
+    }
+  }
+
+  return found;
+}
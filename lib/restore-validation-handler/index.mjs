@@ -0,0 +1,86 @@
+// Validates the restores of a restore testing plan (BackupStack): checks that
+// the restored database, file system or volume is available and reports the
+// result to AWS Backup, which then deletes it. Triggered by EventBridge when a
+// restore job completes; runs on the Lambda Node.js runtime, which bundles the
+// AWS SDK v3.
+import {
+  BackupClient,
+  DescribeRestoreJobCommand,
+  PutRestoreValidationResultCommand,
+} from "@aws-sdk/client-backup";
+import { DescribeVolumesCommand, EC2Client } from "@aws-sdk/client-ec2";
+import { DescribeFileSystemsCommand, EFSClient } from "@aws-sdk/client-efs";
+import {
+  DescribeDBClustersCommand,
+  DescribeDBInstancesCommand,
+  RDSClient,
+} from "@aws-sdk/client-rds";
+
+const backup = new BackupClient({});
+const ec2 = new EC2Client({});
+const efs = new EFSClient({});
+const rds = new RDSClient({});
+
+// State of the restored resource, by the resource part of its ARN
+async function restoredState(arn) {
+  const resource = arn.split(":").slice(5).join(":");
+  let match;
+  if ((match = /^db:(.+)$/.exec(resource))) {
+    const { DBInstances } = await rds.send(
+      new DescribeDBInstancesCommand({ DBInstanceIdentifier: match[1] }),
+    );
+    return DBInstances?.[0]?.DBInstanceStatus;
+  }
+  if ((match = /^cluster:(.+)$/.exec(resource))) {
+    const { DBClusters } = await rds.send(
+      new DescribeDBClustersCommand({ DBClusterIdentifier: match[1] }),
+    );
+    return DBClusters?.[0]?.Status;
+  }
+  if ((match = /^file-system\/(.+)$/.exec(resource))) {
+    const { FileSystems } = await efs.send(
+      new DescribeFileSystemsCommand({ FileSystemId: match[1] }),
+    );
+    return FileSystems?.[0]?.LifeCycleState;
+  }
+  if ((match = /^volume\/(.+)$/.exec(resource))) {
+    const { Volumes } = await ec2.send(
+      new DescribeVolumesCommand({ VolumeIds: [match[1]] }),
+    );
+    return Volumes?.[0]?.State;
+  }
+  throw new Error(`unsupported restored resource ${arn}`);
+}
+
+export async function handler(event) {
+  const restoreJobId = event.detail.restoreJobId;
+  const job = await backup.send(
+    new DescribeRestoreJobCommand({ RestoreJobId: restoreJobId }),
+  );
+  if (
+    job.CreatedBy?.RestoreTestingPlanArn !==
+    process.env.RESTORE_TESTING_PLAN_ARN
+  ) {
+    return;
+  }
+
+  let status = "FAILED";
+  let message;
+  try {
+    const state = await restoredState(job.CreatedResourceArn);
+    if (state === "available") {
+      status = "SUCCESSFUL";
+    }
+    message = `${job.CreatedResourceArn} is ${state ?? "missing"}`;
+  } catch (err) {
+    message = `${job.CreatedResourceArn}: ${err.message}`;
+  }
+  console.log(`restore job ${restoreJobId}: ${status}, ${message}`);
+  await backup.send(
+    new PutRestoreValidationResultCommand({
+      RestoreJobId: restoreJobId,
+      ValidationStatus: status,
+      ValidationStatusMessage: message.slice(0, 1024),
+    }),
+  );
+}
@@ -0,0 +1,217 @@
+/**
+ * Dogecoin sync monitor (sidecar)
+ * - Polls the node's JSON-RPC for block height, header height, peers and
+ *   verification progress
+ * - Prints CloudWatch Embedded Metric Format (EMF) lines to stdout; the awslogs
+ *   driver ships them to CloudWatch Logs, which turns them into metrics
+ *
+ * Configured through the environment:
+ * RPC_HOST, RPC_PORT, RPC_USER, RPC_PASSWORD, CHAIN, NODE, METRIC_NAMESPACE,
+ * POLL_INTERVAL_SECONDS
+ */
+
+export interface RpcConfig {
+  host: string;
+  port: number;
+  user: string;
+  password: string;
+  timeoutMs?: number; // default 10000
+}
+
+export interface SyncStatus {
+  chain: string;
+  blocks: number;
+  headers: number;
+  headerLag: number; // headers - blocks
+  peers: number;
+  verificationProgress: number; // 0..1
+  initialBlockDownload: boolean;
+}
+
+export class RpcError extends Error {
+  constructor(
+    public readonly method: string,
+    message: string,
+  ) {
+    super(`${method}: ${message}`);
+    this.name = "RpcError";
+  }
+}
+
+/**
+ * Calls a JSON-RPC method on dogecoind and returns its result.
+ */
+export async function rpcCall<T>(
+  config: RpcConfig,
+  method: string,
+  params: unknown[] = [],
+): Promise<T> {
+  const auth = Buffer.from(`${config.user}:${config.password}`).toString(
+    "base64",
+  );
+
+  let response: Response;
+  try {
+    response = await fetch(`http://${config.host}:${config.port}/`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Basic ${auth}`,
+      },
+      body: JSON.stringify({ jsonrpc: "1.0", id: method, method, params }),
+      signal: AbortSignal.timeout(config.timeoutMs ?? 10000),
+    });
+  } catch (err) {
+    throw new RpcError(method, (err as Error).message);
+  }
+
+  // dogecoind answers RPC errors with a 500 and a JSON body, so read it first
+  const text = await response.text();
+  let body: { result?: T; error?: { message?: string } | null };
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new RpcError(
+      method,
+      `HTTP ${response.status}: ${text.slice(0, 200)}`,
+    );
+  }
+  if (body.error) {
+    throw new RpcError(
+      method,
+      body.error.message ?? JSON.stringify(body.error),
+    );
+  }
+  if (!response.ok) {
+    throw new RpcError(method, `HTTP ${response.status}`);
+  }
+  return body.result as T;
+}
+
+/**
+ * Builds a SyncStatus from `getblockchaininfo` and `getconnectioncount` results.
+ */
+export function parseSyncStatus(
+  blockchainInfo: unknown,
+  connectionCount: unknown,
+): SyncStatus {
+  const info = (blockchainInfo ?? {}) as Record<string, unknown>;
+  const numberField = (key: string): number => {
+    const value = info[key];
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw new Error(`getblockchaininfo.${key} is missing or not a number`);
+    }
+    return value;
+  };
+
+  if (typeof connectionCount !== "number") {
+    throw new Error("getconnectioncount did not return a number");
+  }
+
+  const blocks = numberField("blocks");
+  const headers = numberField("headers");
+  const verificationProgress = numberField("verificationprogress");
+
+  return {
+    chain: typeof info.chain === "string" ? info.chain : "unknown",
+    blocks,
+    headers,
+    headerLag: Math.max(0, headers - blocks),
+    peers: connectionCount,
+    verificationProgress,
+    // Older dogecoind releases don't report initialblockdownload
+    initialBlockDownload:
+      typeof info.initialblockdownload === "boolean"
+        ? info.initialblockdownload
+        : verificationProgress < 0.9999,
+  };
+}
+
+export async function collectSyncStatus(
+  config: RpcConfig,
+): Promise<SyncStatus> {
+  const [blockchainInfo, connectionCount] = await Promise.all([
+    rpcCall(config, "getblockchaininfo"),
+    rpcCall(config, "getconnectioncount"),
+  ]);
+  return parseSyncStatus(blockchainInfo, connectionCount);
+}
+
+/**
+ * Renders one EMF log line. `status` is undefined when the RPC was unreachable,
+ * in which case only RpcReachable=0 is published. With `node` set, metrics are
+ * also published per node alongside the per-chain aggregate.
+ */
+export function toEmf(
+  namespace: string,
+  chain: string,
+  status: SyncStatus | undefined,
+  timestamp: number = Date.now(),
+  node?: string,
+): string {
+  const values: Record<string, number> = { RpcReachable: status ? 1 : 0 };
+  if (status) {
+    values.BlockHeight = status.blocks;
+    values.HeaderHeight = status.headers;
+    values.HeaderLag = status.headerLag;
+    values.PeerCount = status.peers;
+    values.VerificationProgress = status.verificationProgress;
+    values.InitialBlockDownload = status.initialBlockDownload ? 1 : 0;
+  }
+
+  return JSON.stringify({
+    _aws: {
+      Timestamp: timestamp,
+      CloudWatchMetrics: [
+        {
+          Namespace: namespace,
+          Dimensions: node ? [["Chain"], ["Chain", "Node"]] : [["Chain"]],
+          Metrics: Object.keys(values).map((name) => ({
+            Name: name,
+            Unit: "None",
+          })),
+        },
+      ],
+    },
+    Chain: chain,
+    ...(node ? { Node: node } : {}),
+    ...values,
+  });
+}
+
+async function main() {
+  const env = process.env;
+  const config: RpcConfig = {
+    host: env.RPC_HOST ?? "127.0.0.1",
+    port: Number(env.RPC_PORT ?? 22555),
+    user: env.RPC_USER ?? "",
+    password: env.RPC_PASSWORD ?? "",
+  };
+  const namespace = env.METRIC_NAMESPACE ?? "Fractal/Dogecoin";
+  const chain = env.CHAIN ?? "mainnet";
+  const node = env.NODE || undefined;
+  const intervalMs = Number(env.POLL_INTERVAL_SECONDS ?? 60) * 1000;
+
+  // Nothing to flush, so stop as soon as ECS asks
+  process.on("SIGTERM", () => process.exit(0));
+
+  for (;;) {
+    let status: SyncStatus | undefined;
+    try {
+      status = await collectSyncStatus(config);
+    } catch (err) {
+      console.error(
+        JSON.stringify({ level: "error", message: (err as Error).message }),
+      );
+    }
+    console.log(toEmf(namespace, chain, status, Date.now(), node));
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,141 @@
+import * as cdk from "aws-cdk-lib";
+import { Match, Template } from "aws-cdk-lib/assertions";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as efs from "aws-cdk-lib/aws-efs";
+import * as rds from "aws-cdk-lib/aws-rds";
+import { BackupStack, BackupStackProps } from "../lib/backup-stack";
+import { TEST_ENV, testApp } from "./fixtures";
+
+// A BackupStack over an imported RDS instance and EFS file system
+function synth(props?: Partial<BackupStackProps>): Template {
+  const app = testApp();
+  const resources = new cdk.Stack(app, "Resources", { env: TEST_ENV });
+  const securityGroup = ec2.SecurityGroup.fromSecurityGroupId(
+    resources,
+    "Sg",
+    "sg-12345678",
+  );
+  const stack = new BackupStack(app, "BackupStack", {
+    rdsInstance: rds.DatabaseInstance.fromDatabaseInstanceAttributes(
+      resources,
+      "Db",
+      {
+        instanceIdentifier: "fractal-db",
+        instanceEndpointAddress: "fractal-db.example.com",
+        port: 5432,
+        securityGroups: [securityGroup],
+      },
+    ),
+    fileSystem: efs.FileSystem.fromFileSystemAttributes(resources, "Efs", {
+      fileSystemId: "fs-12345678",
+      securityGroup,
+    }),
+    env: TEST_ENV,
+    ...props,
+  });
+  return Template.fromStack(stack);
+}
+
+describe("BackupStack", () => {
+  test("backs up the database and chain data daily, weekly and monthly", () => {
+    const template = synth();
+    const [plan] = Object.values(
+      template.findResources("AWS::Backup::BackupPlan"),
+    );
+    expect(
+      plan.Properties.BackupPlan.BackupPlanRule.map(
+        (rule: { RuleName: string }) => rule.RuleName,
+      ),
+    ).toEqual(["Daily", "Weekly", "Monthly"]);
+    template.hasResourceProperties("AWS::Backup::BackupSelection", {
+      BackupSelection: {
+        Resources: Match.arrayWith([Match.stringLikeRegexp("fs-12345678")]),
+      },
+    });
+  });
+
+  test("keeps each rule's backups for its retention and copies them across regions", () => {
+    const copyVault =
+      "arn:aws:backup:us-west-2:123456789012:backup-vault:fractal-dr";
+    const template = synth({
+      copyToVaultArn: copyVault,
+      copyRetentionDays: 14,
+      dailyRetentionDays: 10,
+    });
+    const [plan] = Object.values(
+      template.findResources("AWS::Backup::BackupPlan"),
+    );
+    const rules = plan.Properties.BackupPlan.BackupPlanRule;
+    expect(
+      rules.map(
+        (rule: { Lifecycle: { DeleteAfterDays: number } }) =>
+          rule.Lifecycle.DeleteAfterDays,
+      ),
+    ).toEqual([10, 35, 365]);
+    for (const rule of rules) {
+      expect(rule.CopyActions).toEqual([
+        {
+          DestinationBackupVaultArn: copyVault,
+          Lifecycle: { DeleteAfterDays: 14 },
+        },
+      ]);
+    }
+
+    template.hasResource("AWS::Backup::BackupVault", {
+      Properties: { EncryptionKeyArn: Match.anyValue() },
+      DeletionPolicy: "Retain",
+    });
+  });
+
+  test("restore tests the vault's recovery points and validates each restore", () => {
+    const template = synth();
+    template.hasResourceProperties("AWS::Backup::RestoreTestingPlan", {
+      RecoveryPointSelection: {
+        IncludeVaults: [Match.anyValue()],
+      },
+    });
+    const selections = template.findResources(
+      "AWS::Backup::RestoreTestingSelection",
+    );
+    expect(
+      Object.values(selections).map((s) => [
+        s.Properties.ProtectedResourceType,
+        s.Properties.ValidationWindowHours,
+      ]),
+    ).toEqual([
+      ["RDS", 4],
+      ["EFS", 4],
+    ]);
+
+    // Completed restores go to the validator, which reports the result
+    const [validator] = Object.keys(
+      template.findResources("AWS::Lambda::Function", {
+        Properties: { Description: "Validates restore testing jobs" },
+      }),
+    );
+    template.hasResourceProperties("AWS::Events::Rule", {
+      EventPattern: {
+        source: ["aws.backup"],
+        "detail-type": ["Restore Job State Change"],
+        detail: { status: ["COMPLETED"] },
+      },
+      Targets: [
+        Match.objectLike({ Arn: { "Fn::GetAtt": [validator, "Arn"] } }),
+      ],
+    });
+    template.hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: Match.arrayWith(["backup:PutRestoreValidationResult"]),
+          }),
+        ]),
+      },
+    });
+
+    synth({ restoreTesting: false }).resourceCountIs(
+      "AWS::Backup::RestoreTestingPlan",
+      0,
+    );
+  });
+});
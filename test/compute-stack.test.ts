@@ -0,0 +1,53 @@
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { ComputeStack } from "../lib/compute-stack";
+import { DatabaseStack } from "../lib/database-stack";
+import { EngineStack } from "../lib/engine-stack";
+import { TEST_ENV, testNetwork } from "./fixtures";
+
+describe("ComputeStack", () => {
+  test("hosts the Engine on Fargate Spot in the shared cluster", () => {
+    const { app, network } = testNetwork();
+    const compute = new ComputeStack(app, "ComputeStack", {
+      vpc: network.vpc,
+      env: TEST_ENV,
+    });
+    const db = new DatabaseStack(app, "DatabaseStack", {
+      vpc: network.vpc,
+      rdsSecurityGroup: network.rdsSg,
+      env: TEST_ENV,
+    });
+    const engine = new EngineStack(app, "EngineStack", {
+      vpc: network.vpc,
+      albSecurityGroup: network.albSg,
+      engineSecurityGroup: network.engineSg,
+      dbHost: db.endpointAddress,
+      dbSecret: db.engineSecret,
+      sharedCluster: compute,
+      capacityProviderStrategies: [
+        { capacityProvider: "FARGATE", base: 1, weight: 1 },
+        { capacityProvider: "FARGATE_SPOT", weight: 3 },
+      ],
+      env: TEST_ENV,
+    });
+
+    const computeTemplate = Template.fromStack(compute);
+    computeTemplate.hasResourceProperties(
+      "AWS::ECS::ClusterCapacityProviderAssociations",
+      { CapacityProviders: ["FARGATE", "FARGATE_SPOT"] },
+    );
+    computeTemplate.hasResourceProperties("AWS::ECS::Cluster", {
+      ClusterSettings: [{ Name: "containerInsights", Value: "enabled" }],
+    });
+
+    const engineTemplate = Template.fromStack(engine);
+    engineTemplate.resourceCountIs("AWS::ECS::Cluster", 0);
+    engineTemplate.hasResourceProperties("AWS::ECS::Service", {
+      Cluster: { "Fn::ImportValue": Match.stringLikeRegexp("^ComputeStack:") },
+      LaunchType: Match.absent(),
+      CapacityProviderStrategy: [
+        { CapacityProvider: "FARGATE", Base: 1, Weight: 1 },
+        { CapacityProvider: "FARGATE_SPOT", Weight: 3 },
+      ],
+    });
+  });
+});
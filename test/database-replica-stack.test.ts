@@ -0,0 +1,59 @@
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { DatabaseReplicaStack } from "../lib/database-replica-stack";
+import { DatabaseStack } from "../lib/database-stack";
+import { NetworkStack } from "../lib/network-stack";
+import { TEST_ENV, testNetwork } from "./fixtures";
+
+const DR_ENV = { ...TEST_ENV, region: "us-west-2" };
+
+describe("DatabaseReplicaStack", () => {
+  test("replicates the primary instance and its secret into the standby region", () => {
+    const { app, network } = testNetwork({ crossRegionReferences: true });
+    const db = new DatabaseStack(app, "DatabaseStack", {
+      vpc: network.vpc,
+      rdsSecurityGroup: network.rdsSg,
+      secretReplicaRegions: [DR_ENV.region],
+      crossRegionReferences: true,
+      env: TEST_ENV,
+    });
+    const drNetwork = new NetworkStack(app, "DrNetworkStack", {
+      cidr: "10.1.0.0/16",
+      env: DR_ENV,
+    });
+    const replica = new DatabaseReplicaStack(app, "DrDatabaseStack", {
+      vpc: drNetwork.vpc,
+      rdsSecurityGroup: drNetwork.rdsSg,
+      sourceInstance: db.rdsInstance,
+      credentialsSecretName: db.credentialsSecretName,
+      crossRegionReferences: true,
+      env: DR_ENV,
+    });
+
+    Template.fromStack(db).hasResourceProperties(
+      "AWS::SecretsManager::Secret",
+      {
+        Name: "FractalEngineRdsCredentials",
+        ReplicaRegions: [{ Region: "us-west-2" }],
+      },
+    );
+
+    const template = Template.fromStack(replica);
+    template.hasResourceProperties("AWS::RDS::DBInstance", {
+      SourceDBInstanceIdentifier: Match.anyValue(),
+      PubliclyAccessible: false,
+      StorageType: "gp3",
+    });
+    template.hasOutput("PromoteDatabaseCommand", {
+      Value: {
+        "Fn::Join": [
+          "",
+          [
+            "aws rds promote-read-replica --db-instance-identifier ",
+            { Ref: Match.stringLikeRegexp("^FractalDbReplica") },
+            " --backup-retention-period 3 --region us-west-2",
+          ],
+        ],
+      },
+    });
+  });
+});
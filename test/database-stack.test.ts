@@ -0,0 +1,111 @@
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { DatabaseStack, DatabaseStackProps } from "../lib/database-stack";
+import { TEST_ENV, testNetwork } from "./fixtures";
+
+function synth(props?: Partial<DatabaseStackProps>): Template {
+  const { app, network } = testNetwork({
+    enableRdsProxy: props?.proxy,
+    enableDbRotation: props?.rotation !== undefined,
+  });
+  const stack = new DatabaseStack(app, "DatabaseStack", {
+    vpc: network.vpc,
+    rdsSecurityGroup: network.rdsSg,
+    rdsProxySecurityGroup: network.rdsProxySg,
+    rotationSecurityGroup: network.rdsRotationSg,
+    env: TEST_ENV,
+    ...props,
+  });
+  return Template.fromStack(stack);
+}
+
+describe("DatabaseStack", () => {
+  test("the proxy takes password logins over TLS by default", () => {
+    const template = synth({ proxy: true });
+    template.hasResourceProperties("AWS::RDS::DBProxy", {
+      RequireTLS: true,
+      Auth: [{ AuthScheme: "SECRETS", IAMAuth: "DISABLED" }],
+    });
+    template.hasOutput("RdsProxyEndpoint", {});
+
+    expect(() =>
+      synth({ proxy: true, rdsProxySecurityGroup: undefined }),
+    ).toThrow(/proxy requires rdsProxySecurityGroup/);
+  });
+
+  test("proxyIamAuth requires IAM tokens at the proxy", () => {
+    const template = synth({ proxy: true, proxyIamAuth: true });
+    template.hasResourceProperties("AWS::RDS::DBProxy", {
+      Auth: [{ IAMAuth: "REQUIRED" }],
+    });
+    expect(() => synth({ proxyIamAuth: true })).toThrow(
+      /proxyIamAuth requires proxy/,
+    );
+  });
+
+  test("aurora-serverless-v2 runs a Serverless v2 writer and scaled readers", () => {
+    const template = synth({
+      engineMode: "aurora-serverless-v2",
+      minCapacityAcu: 0,
+      maxCapacityAcu: 8,
+      readers: 1,
+    });
+    template.resourceCountIs("AWS::RDS::DBInstance", 2);
+    template.hasResourceProperties("AWS::RDS::DBCluster", {
+      Engine: "aurora-postgresql",
+      EngineVersion: "15.7",
+      StorageEncrypted: true,
+      ServerlessV2ScalingConfiguration: { MinCapacity: 0, MaxCapacity: 8 },
+    });
+    template.allResourcesProperties("AWS::RDS::DBInstance", {
+      DBInstanceClass: "db.serverless",
+    });
+    // Readers in promotion tier 0 or 1 scale with the writer
+    template.hasResourceProperties("AWS::RDS::DBInstance", {
+      PromotionTier: 1,
+    });
+    template.hasOutput("RdsReaderEndpoint", Match.anyValue());
+
+    expect(() => synth({ globalClusterIdentifier: "fractal" })).toThrow(
+      /globalClusterIdentifier requires engineMode "aurora-serverless-v2"/,
+    );
+  });
+
+  test("rotates the master user in place and the Engine's app user alternating", () => {
+    const single = synth({ rotation: "single-user" });
+    single.resourcePropertiesCountIs(
+      "AWS::SecretsManager::RotationSchedule",
+      { RotationRules: { ScheduleExpression: "rate(30 days)" } },
+      1,
+    );
+    expect(single.findOutputs("EngineDbSecretName")).toEqual({});
+
+    const alternating = synth({
+      rotation: "alternating-users",
+      rotationDays: 7,
+    });
+    alternating.resourcePropertiesCountIs(
+      "AWS::SecretsManager::RotationSchedule",
+      { RotationRules: { ScheduleExpression: "rate(7 days)" } },
+      2,
+    );
+    alternating.hasResourceProperties("AWS::SecretsManager::Secret", {
+      Name: "FractalEngineRdsCredentials-app",
+    });
+    alternating.hasOutput("EngineDbSecretName", Match.anyValue());
+
+    expect(() => synth({ rotation: "alternating-users", proxy: true })).toThrow(
+      /"alternating-users" rotation is not supported with proxy/,
+    );
+  });
+
+  test("alternating-users waits a full period before the app user's first rotation", () => {
+    const template = synth({ rotation: "alternating-users", rotationDays: 7 });
+    template.hasResourceProperties("AWS::SecretsManager::RotationSchedule", {
+      SecretId: { Ref: Match.stringLikeRegexp("EngineAppSecretAttachment") },
+      RotateImmediatelyOnUpdate: false,
+      RotationRules: { ScheduleExpression: "rate(7 days)" },
+    });
+    // EngineStack creates the app user on its own cluster
+    template.resourceCountIs("AWS::ECS::Cluster", 0);
+  });
+});
@@ -0,0 +1,128 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as cdk from "aws-cdk-lib";
+import {
+  loadDeploymentConfig,
+  validateDeploymentConfig,
+} from "../lib/deployment-config";
+
+const STAGES = JSON.parse(
+  fs.readFileSync(path.join(__dirname, "..", "config", "stages.json"), "utf8"),
+);
+
+// A checked-in stage with some fields replaced
+function stage(overrides: Record<string, unknown>, name = "testnet") {
+  return { ...structuredClone(STAGES[name]), ...overrides };
+}
+
+function errorsOf(raw: unknown): string[] {
+  try {
+    validateDeploymentConfig("test", raw);
+  } catch (err) {
+    const message = (err as Error).message;
+    expect(message).toMatch(/^Invalid deployment config for stage "test":/);
+    return message.split("\n  - ").slice(1);
+  }
+  return [];
+}
+
+describe("validateDeploymentConfig", () => {
+  test.each(Object.keys(STAGES))("accepts the checked-in %s stage", (name) => {
+    const config = validateDeploymentConfig(name, STAGES[name]);
+    expect(config.stage).toBe(name);
+  });
+
+  test("the mainnet stage meets the guardrails without suppressions", () => {
+    const config = validateDeploymentConfig("mainnet", STAGES.mainnet);
+    expect(config.guardrails?.suppressions ?? []).toEqual([]);
+    expect(config.engine.https).toBeDefined();
+    expect(config.engine.runtime?.corsAllowedOrigins).not.toContain("*");
+  });
+
+  test("reports every problem at once", () => {
+    const errors = errorsOf(
+      stage({ chain: "dogenet", logRetentionDays: 2, network: {} }),
+    );
+    expect(errors).toEqual(
+      expect.arrayContaining([
+        expect.stringMatching(/^chain must be one of/),
+        expect.stringMatching(/^logRetentionDays must be/),
+        expect.stringMatching(/^network.cidr must be/),
+        expect.stringMatching(/^network.natGateways/),
+      ]),
+    );
+  });
+
+  test("reports lists of the wrong type instead of throwing", () => {
+    const raw = stage({
+      guardrails: { suppressions: { rule: "x" } },
+      monitoring: { alarmWebhookUrls: { url: "http://example.com" } },
+    });
+    raw.engine.scaling = {
+      minCapacity: 1,
+      maxCapacity: 2,
+      schedules: "cron(0 8 * * ? *)",
+    };
+    raw.engine.exposure = "internal";
+    raw.engine.clientCidrs = { cidr: "10.0.0.0/8" };
+    raw.engine.waf = { allowedCidrs: 42, blockedCountries: { CN: true } };
+
+    expect(errorsOf(raw)).toEqual([
+      "guardrails.suppressions must be a list",
+      "engine.scaling.schedules must be a list",
+      "engine.clientCidrs must be a list of strings when set",
+      "engine.waf.allowedCidrs must be a list of strings when set",
+      "engine.waf.blockedCountries must be a list of strings when set",
+      "monitoring.alarmWebhookUrls must be a list of strings when set",
+    ]);
+  });
+
+  test("only accepts alarm webhooks that can confirm an SNS subscription", () => {
+    const slack = "https://hooks.slack.com/services/T000/B000/XXXX";
+    expect(
+      errorsOf(
+        stage({
+          monitoring: {
+            alarmWebhookUrls: [slack, "https://events.pagerduty.com/sns"],
+          },
+        }),
+      ),
+    ).toEqual([
+      `monitoring.alarmWebhookUrls entry ${slack} is a chat webhook, which can't confirm an SNS subscription; use AWS Chatbot instead`,
+    ]);
+  });
+
+  test("rejects a disaster recovery region equal to the default region", () => {
+    const previous = process.env.CDK_DEFAULT_REGION;
+    process.env.CDK_DEFAULT_REGION = "us-east-1";
+    try {
+      const raw = stage({
+        disasterRecovery: { region: "us-east-1", cidr: "10.1.0.0/16" },
+      });
+      delete raw.region;
+      expect(errorsOf(raw)).toContain(
+        "disasterRecovery.region must differ from region",
+      );
+    } finally {
+      if (previous === undefined) {
+        delete process.env.CDK_DEFAULT_REGION;
+      } else {
+        process.env.CDK_DEFAULT_REGION = previous;
+      }
+    }
+  });
+});
+
+describe("loadDeploymentConfig", () => {
+  test("selects the stage from context", () => {
+    const app = new cdk.App({ context: { stage: "dev" } });
+    expect(loadDeploymentConfig(app).stage).toBe("dev");
+  });
+
+  test("lists the known stages for an unknown one", () => {
+    const app = new cdk.App({ context: { stage: "nope" } });
+    expect(() => loadDeploymentConfig(app)).toThrow(
+      /Unknown stage "nope".*Known stages: dev, testnet, mainnet/,
+    );
+  });
+});
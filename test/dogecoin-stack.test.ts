@@ -0,0 +1,304 @@
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { DogecoinStack, DogecoinStackProps } from "../lib/dogecoin-stack";
+import { TEST_ENV, testNetwork } from "./fixtures";
+
+function synth(props?: Partial<DogecoinStackProps>): Template {
+  const { app, network } = testNetwork();
+  const stack = new DogecoinStack(app, "DogecoinStack", {
+    vpc: network.vpc,
+    dogeSecurityGroup: network.dogeSg,
+    namespace: network.namespace,
+    chainProfile: network.chainProfile,
+    env: TEST_ENV,
+    ...props,
+  });
+  return Template.fromStack(stack);
+}
+
+// The user data script of the (only) EC2 host's launch template
+function userDataScript(template: Template): string {
+  const [launchTemplate] = Object.values(
+    template.findResources("AWS::EC2::LaunchTemplate"),
+  );
+  const parts = launchTemplate.Properties.LaunchTemplateData.UserData[
+    "Fn::Base64"
+  ]["Fn::Join"][1] as unknown[];
+  return parts
+    .map((part) => (typeof part === "string" ? part : "${}"))
+    .join("");
+}
+
+describe("DogecoinStack", () => {
+  test("sync-lag alarm treats missing metrics as lagging", () => {
+    const template = synth();
+    template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+      MetricName: "HeaderLag",
+      Statistic: "Minimum",
+      TreatMissingData: "breaching",
+    });
+  });
+
+  test("nodes get generated RPC credentials from Secrets Manager", () => {
+    const template = synth({ rpcUsername: "engine" });
+    template.hasResourceProperties("AWS::SecretsManager::Secret", {
+      GenerateSecretString: {
+        SecretStringTemplate: JSON.stringify({ username: "engine" }),
+        GenerateStringKey: "password",
+      },
+    });
+    const [secretId] = Object.keys(
+      template.findResources("AWS::SecretsManager::Secret"),
+    );
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      ContainerDefinitions: Match.arrayWith([
+        Match.objectLike({
+          Secrets: Match.arrayWith([
+            {
+              Name: "RPC_USER",
+              ValueFrom: {
+                "Fn::Join": ["", [{ Ref: secretId }, ":username::"]],
+              },
+            },
+            {
+              Name: "RPC_PASSWORD",
+              ValueFrom: {
+                "Fn::Join": ["", [{ Ref: secretId }, ":password::"]],
+              },
+            },
+          ]),
+        }),
+      ]),
+    });
+  });
+
+  test("health checks the node and runs the sync monitor beside it", () => {
+    const template = synth();
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      ContainerDefinitions: Match.arrayWith([
+        Match.objectLike({
+          Name: "Dogecoin",
+          HealthCheck: Match.objectLike({
+            Command: [
+              "CMD-SHELL",
+              Match.stringLikeRegexp("dogecoin-cli .* getblockchaininfo"),
+            ],
+          }),
+        }),
+        Match.objectLike({
+          Name: "SyncMonitor",
+          Essential: false,
+          Environment: Match.arrayWith([
+            { Name: "METRIC_NAMESPACE", Value: "Fractal/Dogecoin" },
+          ]),
+          DependsOn: [{ ContainerName: "Dogecoin", Condition: "START" }],
+        }),
+      ]),
+    });
+    template.hasResourceProperties("AWS::CloudWatch::Alarm", {
+      Namespace: "Fractal/Dogecoin",
+      MetricName: "HeaderLag",
+      Threshold: 10,
+      EvaluationPeriods: 6,
+    });
+
+    const unmonitored = synth({ syncMonitor: false });
+    unmonitored.resourceCountIs("AWS::CloudWatch::Alarm", 0);
+    unmonitored.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      ContainerDefinitions: [Match.objectLike({ Name: "Dogecoin" })],
+    });
+  });
+
+  test("bootstraps the chain from a verified snapshot before node 0 starts", () => {
+    const sha256 = "ab".repeat(32);
+    const template = synth({
+      bootstrap: {
+        snapshotUri: "s3://fractal-snapshots/dogecoin/mainnet.tar.gz",
+        expectedSha256: sha256,
+      },
+    });
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      ContainerDefinitions: [
+        Match.objectLike({
+          Name: "Bootstrap",
+          Environment: Match.arrayWith([
+            {
+              Name: "SNAPSHOT_URI",
+              Value: "s3://fractal-snapshots/dogecoin/mainnet.tar.gz",
+            },
+            { Name: "EXPECTED_SHA256", Value: sha256 },
+          ]),
+        }),
+      ],
+    });
+    template.hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: "s3:GetObject",
+            Resource: "arn:aws:s3:::fractal-snapshots/dogecoin/mainnet.tar.gz",
+          }),
+        ]),
+      },
+    });
+
+    const [run] = Object.keys(template.findResources("Custom::EcsRunTask"));
+    template.hasResourceProperties("Custom::EcsRunTask", {
+      RunOnUpdate: "false",
+    });
+    const [service] = Object.values(
+      template.findResources("AWS::ECS::Service"),
+    );
+    expect(service.DependsOn).toEqual(expect.arrayContaining([run]));
+    // A run left behind by a timeout or rollback is stopped on delete
+    template.hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: "ecs:StopTask",
+            Condition: {
+              ArnEquals: { "ecs:cluster": Match.anyValue() },
+            },
+          }),
+        ]),
+      },
+    });
+
+    expect(() =>
+      synth({ bootstrap: { snapshotUri: "s3://fractal-snapshots/x.tar" } }),
+    ).toThrow(/snapshotUri requires expectedSha256/);
+  });
+
+  test("ec2 mode runs each node on its own host and retained EBS volume", () => {
+    const template = synth({ computeMode: "ec2" });
+    template.resourceCountIs("AWS::EFS::FileSystem", 0);
+    template.hasResource("AWS::EC2::Volume", {
+      Properties: {
+        VolumeType: "gp3",
+        Size: 200,
+        Encrypted: true,
+      },
+      DeletionPolicy: "Retain",
+    });
+    template.hasResourceProperties("AWS::AutoScaling::AutoScalingGroup", {
+      MinSize: "1",
+      MaxSize: "1",
+    });
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      RequiresCompatibilities: ["EC2"],
+      NetworkMode: "awsvpc",
+      Volumes: [
+        { Name: "dogecoin-data", Host: { SourcePath: "/data/dogecoin" } },
+      ],
+    });
+    const [provider] = Object.keys(
+      template.findResources("AWS::ECS::CapacityProvider"),
+    );
+    template.hasResourceProperties("AWS::ECS::Service", {
+      CapacityProviderStrategy: [{ CapacityProvider: { Ref: provider } }],
+      DeploymentConfiguration: Match.objectLike({
+        MinimumHealthyPercent: 0,
+        MaximumPercent: 100,
+      }),
+    });
+
+    const fleet = synth({ computeMode: "ec2", desiredCount: 2 });
+    fleet.resourceCountIs("AWS::EC2::Volume", 2);
+    fleet.resourceCountIs("AWS::AutoScaling::AutoScalingGroup", 2);
+  });
+
+  test("ec2 hosts join the cluster before mounting and only take tasks after", () => {
+    const template = synth({ computeMode: "ec2" });
+    const script = userDataScript(template);
+
+    const joins = script.indexOf("ECS_CLUSTER=");
+    expect(joins).toBeGreaterThan(-1);
+    expect(joins).toBeLessThan(script.indexOf("attach-volume"));
+    expect(script).toContain("trap ");
+    expect(script).toMatch(/for i in \$\(seq 1 30\); do aws ec2 attach-volume/);
+    expect(script).not.toMatch(/until aws/);
+    expect(script).toContain("command -v aws");
+    expect(script.lastIndexOf("ECS_INSTANCE_ATTRIBUTES")).toBeGreaterThan(
+      script.indexOf("mount "),
+    );
+
+    template.hasResourceProperties("AWS::ECS::Service", {
+      PlacementConstraints: [
+        {
+          Type: "memberOf",
+          Expression: "attribute:fractal.dogecoin-data == mounted",
+        },
+      ],
+    });
+  });
+
+  test("each node registers under its own health-checked Cloud Map name", () => {
+    const template = synth({ desiredCount: 3 });
+
+    const names = Object.values(
+      template.findResources("AWS::ServiceDiscovery::Service"),
+    ).map((service) => {
+      expect(service.Properties.HealthCheckCustomConfig).toEqual({
+        FailureThreshold: 1,
+      });
+      return service.Properties.Name;
+    });
+    expect(names).toEqual(["dogecoin", "dogecoin-1", "dogecoin-2"]);
+    template.hasOutput("DogecoinServiceDiscoveryNames", {
+      Value:
+        "dogecoin.fractal.local,dogecoin-1.fractal.local,dogecoin-2.fractal.local",
+    });
+  });
+
+  test("a standby has no sync-lag alarm", () => {
+    const template = synth({ standby: true, desiredCount: 0 });
+    template.resourcePropertiesCountIs(
+      "AWS::CloudWatch::Alarm",
+      { MetricName: "HeaderLag" },
+      0,
+    );
+  });
+
+  test("a standby's promotion deletes the replication by its source id", () => {
+    const template = synth({ standby: true, desiredCount: 0 });
+    const command = template.findOutputs("PromoteChainDataCommand")
+      .PromoteChainDataCommand.Value["Fn::Join"][1] as unknown[];
+    const text = command
+      .map((part) => (typeof part === "string" ? part : "${}"))
+      .join("");
+    expect(text).toBe(
+      "aws efs delete-replication-configuration --source-file-system-id " +
+        "$(aws efs describe-replication-configurations --file-system-id ${} " +
+        "--query 'Replications[0].SourceFileSystemId' --output text " +
+        "--region us-east-1) --region us-east-1",
+    );
+  });
+
+  test("a recovery point restores every node from its own datadir", () => {
+    const template = synth({
+      desiredCount: 2,
+      bootstrap: {
+        recoveryPointArn:
+          "arn:aws:elasticfilesystem:us-east-1:123456789012:file-system/fs-0123456789abcdef0",
+      },
+    });
+
+    const restores = Object.values(
+      template.findResources("AWS::ECS::TaskDefinition", {
+        Properties: {
+          ContainerDefinitions: [Match.objectLike({ Name: "Bootstrap" })],
+        },
+      }),
+    ).map((taskDef) => {
+      const env = Object.fromEntries(
+        taskDef.Properties.ContainerDefinitions[0].Environment.map(
+          (e: { Name: string; Value: unknown }) => [e.Name, e.Value],
+        ),
+      );
+      return [env.DATA_DIR, env.RESTORE_PATH];
+    });
+    expect(restores).toEqual([
+      ["/efs/dogecoin", "/dogecoin"],
+      ["/efs/dogecoin-1", "/dogecoin-1"],
+    ]);
+  });
+});
@@ -0,0 +1,79 @@
+import * as cdk from "aws-cdk-lib";
+import { Match, Template } from "aws-cdk-lib/assertions";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import { EcsExecAccess, EcsExecAccessProps } from "../lib/ecs-exec-access";
+import { TEST_ENV, testApp } from "./fixtures";
+
+// A cluster whose exec sessions EcsExecAccess logs and scopes
+function synth(props?: EcsExecAccessProps): Template {
+  const stack = new cdk.Stack(testApp(), "ExecStack", { env: TEST_ENV });
+  const access = new EcsExecAccess(stack, "EcsExec", props);
+  const cluster = new ecs.Cluster(stack, "Cluster", {
+    vpc: new ec2.Vpc(stack, "Vpc"),
+    executeCommandConfiguration: access.configuration,
+  });
+  access.allowExecInto(cluster);
+  return Template.fromStack(stack);
+}
+
+describe("EcsExecAccess", () => {
+  test("logs every session, encrypted, to CloudWatch and S3", () => {
+    const template = synth();
+    template.hasResourceProperties("AWS::ECS::Cluster", {
+      Configuration: {
+        ExecuteCommandConfiguration: {
+          KmsKeyId: Match.anyValue(),
+          Logging: "OVERRIDE",
+          LogConfiguration: Match.objectLike({
+            CloudWatchEncryptionEnabled: true,
+            S3EncryptionEnabled: true,
+            S3KeyPrefix: "exec-sessions",
+          }),
+        },
+      },
+    });
+    template.hasResource("AWS::Logs::LogGroup", {
+      Properties: { RetentionInDays: 365, KmsKeyId: Match.anyValue() },
+      DeletionPolicy: "Retain",
+    });
+  });
+
+  test("only an MFA-authenticated operator role may exec into the cluster", () => {
+    const template = synth();
+    template.hasResourceProperties("AWS::IAM::Role", {
+      MaxSessionDuration: 3600,
+      AssumeRolePolicyDocument: {
+        Statement: [
+          Match.objectLike({
+            Condition: {
+              Bool: { "aws:MultiFactorAuthPresent": "true" },
+              NumericLessThan: { "aws:MultiFactorAuthAge": "3600" },
+            },
+          }),
+        ],
+      },
+    });
+    const [cluster] = Object.keys(template.findResources("AWS::ECS::Cluster"));
+    template.hasResourceProperties("AWS::IAM::ManagedPolicy", {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: "ecs:ExecuteCommand",
+            Condition: {
+              ArnEquals: {
+                "ecs:cluster": { "Fn::GetAtt": [cluster, "Arn"] },
+              },
+            },
+          }),
+        ]),
+      },
+    });
+
+    synth({ requireMfa: false }).hasResourceProperties("AWS::IAM::Role", {
+      AssumeRolePolicyDocument: {
+        Statement: [Match.objectLike({ Condition: Match.absent() })],
+      },
+    });
+  });
+});
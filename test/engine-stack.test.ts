@@ -0,0 +1,633 @@
+import { Match, Template } from "aws-cdk-lib/assertions";
+import * as apigw from "aws-cdk-lib/aws-apigateway";
+import * as appscaling from "aws-cdk-lib/aws-applicationautoscaling";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as route53 from "aws-cdk-lib/aws-route53";
+import { Construct } from "constructs";
+import { DatabaseStack, DatabaseStackProps } from "../lib/database-stack";
+import { DogecoinStack } from "../lib/dogecoin-stack";
+import { EngineStack, EngineStackProps } from "../lib/engine-stack";
+import { NetworkStack, NetworkStackProps } from "../lib/network-stack";
+import { TEST_ENV, testNetwork } from "./fixtures";
+
+interface EngineSynthOptions {
+  network?: Partial<NetworkStackProps>;
+  database?: Partial<DatabaseStackProps>;
+  // Or a function of the network and database, for props that need
+  // constructs in them
+  engine?:
+    | Partial<EngineStackProps>
+    | ((network: NetworkStack, db: DatabaseStack) => Partial<EngineStackProps>);
+}
+
+// A hosted zone imported into the network stack, as bin/deploy.ts does
+function hostedZone(network: NetworkStack): route53.IHostedZone {
+  return route53.HostedZone.fromHostedZoneAttributes(
+    network,
+    "EngineHostedZone",
+    { hostedZoneId: "Z0123456789ABCDEFGHIJ", zoneName: "example.com" },
+  );
+}
+
+// An EngineStack wired to a NetworkStack and DatabaseStack, as bin/deploy.ts does
+function synthEngine(options: EngineSynthOptions = {}): {
+  engine: EngineStack;
+  template: Template;
+} {
+  const { app, network } = testNetwork({
+    enableRdsProxy: options.database?.proxy,
+    enableDbRotation: options.database?.rotation !== undefined,
+    ...options.network,
+  });
+  const db = new DatabaseStack(app, "DatabaseStack", {
+    vpc: network.vpc,
+    rdsSecurityGroup: network.rdsSg,
+    rdsProxySecurityGroup: network.rdsProxySg,
+    rotationSecurityGroup: network.rdsRotationSg,
+    env: TEST_ENV,
+    ...options.database,
+  });
+  const engine = new EngineStack(app, "EngineStack", {
+    vpc: network.vpc,
+    albSecurityGroup: network.albSg,
+    engineSecurityGroup: network.engineSg,
+    dbHost: db.endpointAddress,
+    dbPort: db.endpointPort,
+    dbSecret: db.engineSecret,
+    dbProxy: db.rdsProxy,
+    dbUsername: db.username,
+    dogecoin: { host: "dogecoin.fractal.local" },
+    env: TEST_ENV,
+    ...(typeof options.engine === "function"
+      ? options.engine(network, db)
+      : options.engine),
+  });
+  return { engine, template: Template.fromStack(engine) };
+}
+
+// Environment variables of the Engine container, by name
+function engineEnvironment(template: Template): Record<string, unknown> {
+  const taskDefs = template.findResources("AWS::ECS::TaskDefinition", {
+    Properties: {
+      ContainerDefinitions: Match.arrayWith([
+        Match.objectLike({ Name: "Engine" }),
+      ]),
+    },
+  });
+  const [taskDef] = Object.values(taskDefs);
+  const container = taskDef.Properties.ContainerDefinitions.find(
+    (c: { Name: string }) => c.Name === "Engine",
+  );
+  return Object.fromEntries(
+    container.Environment.map((e: { Name: string; Value: unknown }) => [
+      e.Name,
+      e.Value,
+    ]),
+  );
+}
+
+describe("EngineStack", () => {
+  test("with a domain, serves HTTPS and redirects HTTP to it", () => {
+    const { template } = synthEngine({
+      network: { enableHttps: true },
+      engine: (network) => ({
+        domainName: "engine.example.com",
+        hostedZone: hostedZone(network),
+      }),
+    });
+    template.hasResourceProperties("AWS::CertificateManager::Certificate", {
+      DomainName: "engine.example.com",
+      ValidationMethod: "DNS",
+    });
+    template.hasResourceProperties("AWS::ElasticLoadBalancingV2::Listener", {
+      Port: 443,
+      Protocol: "HTTPS",
+      Certificates: [{ CertificateArn: Match.anyValue() }],
+    });
+    template.hasResourceProperties("AWS::ElasticLoadBalancingV2::Listener", {
+      Port: 80,
+      DefaultActions: [
+        {
+          Type: "redirect",
+          RedirectConfig: {
+            Protocol: "HTTPS",
+            Port: "443",
+            StatusCode: "HTTP_301",
+          },
+        },
+      ],
+    });
+    template.hasResourceProperties("AWS::Route53::RecordSet", {
+      Name: "engine.example.com.",
+      Type: "A",
+      HostedZoneId: "Z0123456789ABCDEFGHIJ",
+    });
+
+    expect(() =>
+      synthEngine({ engine: { domainName: "engine.example.com" } }),
+    ).toThrow(/domainName requires hostedZone/);
+  });
+
+  test("scales on CPU, memory, requests and schedules", () => {
+    const { template } = synthEngine({
+      engine: {
+        scaling: {
+          minCapacity: 2,
+          maxCapacity: 6,
+          requestsPerTarget: 1000,
+          schedules: [
+            {
+              name: "NightlyScaleIn",
+              schedule: appscaling.Schedule.cron({ hour: "22", minute: "0" }),
+              maxCapacity: 2,
+            },
+          ],
+        },
+      },
+    });
+    template.hasResourceProperties(
+      "AWS::ApplicationAutoScaling::ScalableTarget",
+      {
+        MinCapacity: 2,
+        MaxCapacity: 6,
+        ScheduledActions: [
+          {
+            ScheduledActionName: Match.stringLikeRegexp("NightlyScaleIn"),
+            Schedule: "cron(0 22 * * ? *)",
+            ScalableTargetAction: { MaxCapacity: 2 },
+          },
+        ],
+      },
+    );
+    for (const [metric, target] of [
+      ["ECSServiceAverageCPUUtilization", 60],
+      ["ECSServiceAverageMemoryUtilization", 75],
+      ["ALBRequestCountPerTarget", 1000],
+    ] as const) {
+      template.hasResourceProperties(
+        "AWS::ApplicationAutoScaling::ScalingPolicy",
+        {
+          TargetTrackingScalingPolicyConfiguration: Match.objectLike({
+            PredefinedMetricSpecification: Match.objectLike({
+              PredefinedMetricType: metric,
+            }),
+            TargetValue: target,
+            ScaleInCooldown: 300,
+            ScaleOutCooldown: 60,
+          }),
+        },
+      );
+    }
+
+    expect(() =>
+      synthEngine({ engine: { scaling: { minCapacity: 3, maxCapacity: 2 } } }),
+    ).toThrow(/scaling requires 0 <= minCapacity <= maxCapacity/);
+  });
+
+  test("connects through the proxy with the secret unless dbIamAuth is set", () => {
+    const password = synthEngine({ database: { proxy: true } });
+    const env = engineEnvironment(password.template);
+    expect(env).not.toHaveProperty("DATABASE_IAM_AUTH");
+    expect(JSON.stringify(password.template.toJSON())).not.toContain(
+      "rds-db:connect",
+    );
+
+    const iam = synthEngine({
+      database: { proxy: true, proxyIamAuth: true },
+      engine: { dbIamAuth: true },
+    });
+    expect(engineEnvironment(iam.template)).toMatchObject({
+      DATABASE_IAM_AUTH: "true",
+      DATABASE_SSLMODE: "require",
+    });
+    iam.template.hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({ Action: "rds-db:connect" }),
+        ]),
+      },
+    });
+  });
+
+  test("creates the alternating-users app user on its cluster before the Engine starts", () => {
+    const { template } = synthEngine({
+      database: { rotation: "alternating-users" },
+      engine: (_network, db) => ({
+        dbSecret: db.engineSecret,
+        dbMasterSecret: db.rdsSecret,
+        migration: { command: ["fractal-engine", "migrate"] },
+      }),
+    });
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      ContainerDefinitions: [
+        Match.objectLike({
+          Name: "CreateAppUser",
+          Command: [
+            Match.stringLikeRegexp(
+              "CREATE ROLE %I LOGIN PASSWORD %L IN ROLE %I', :'app_user', :'app_password', :'owner'",
+            ),
+          ],
+          Secrets: Match.arrayWith([
+            Match.objectLike({ Name: "PGUSER" }),
+            Match.objectLike({ Name: "APP_USER" }),
+          ]),
+        }),
+      ],
+    });
+    // Only the owner role's grants, never the master user's memberships
+    const [script] = Object.values(
+      template.findResources("AWS::ECS::TaskDefinition"),
+    ).flatMap((taskDef) =>
+      taskDef.Properties.ContainerDefinitions.filter(
+        (c: { Name: string }) => c.Name === "CreateAppUser",
+      ).map((c: { Command: string[] }) => c.Command[0]),
+    );
+    expect(script).toContain("GRANT USAGE, CREATE ON SCHEMA public");
+    expect(script).not.toContain("PGUSER");
+
+    // Runs once, on the Engine cluster, before the migration and the service
+    const runs = template.findResources("Custom::EcsRunTask");
+    const [appUser] = Object.keys(runs).filter((id) =>
+      id.startsWith("DbAppUser"),
+    );
+    const [cluster] = Object.keys(template.findResources("AWS::ECS::Cluster"));
+    template.resourceCountIs("AWS::ECS::Cluster", 1);
+    expect(runs[appUser].Properties).toMatchObject({
+      Cluster: { "Fn::GetAtt": [cluster, "Arn"] },
+      RunOnUpdate: "false",
+    });
+    const [migration] = Object.keys(runs).filter((id) =>
+      id.startsWith("Migration"),
+    );
+    expect(runs[migration].DependsOn).toEqual(
+      expect.arrayContaining([appUser]),
+    );
+    const [service] = Object.values(
+      template.findResources("AWS::ECS::Service"),
+    );
+    expect(service.DependsOn).toEqual(expect.arrayContaining([appUser]));
+  });
+
+  test("lists every Dogecoin node in DOGE_HOSTS, in failover order", () => {
+    const { template } = synthEngine({
+      engine: (network) => {
+        const doge = new DogecoinStack(
+          network.node.scope as Construct,
+          "Doge",
+          {
+            vpc: network.vpc,
+            dogeSecurityGroup: network.dogeSg,
+            namespace: network.namespace,
+            chainProfile: network.chainProfile,
+            desiredCount: 3,
+            env: TEST_ENV,
+          },
+        );
+        return {
+          dogecoin: {
+            host: doge.serviceDiscoveryName,
+            failoverHosts: doge.serviceDiscoveryNames.slice(1),
+          },
+        };
+      },
+    });
+    expect(engineEnvironment(template)).toMatchObject({
+      DOGE_HOST: "dogecoin.fractal.local",
+      DOGE_HOSTS:
+        "dogecoin.fractal.local,dogecoin-1.fractal.local,dogecoin-2.fractal.local",
+    });
+  });
+
+  test("redeploys after the app user's secret rotates", () => {
+    const { template } = synthEngine({
+      database: { rotation: "alternating-users" },
+      engine: { redeployOnDbSecretRotation: true },
+    });
+    template.hasResourceProperties("AWS::Events::Rule", {
+      EventPattern: {
+        source: ["aws.secretsmanager"],
+        detail: {
+          eventName: ["RotationSucceeded"],
+          additionalEventData: { SecretId: [Match.anyValue()] },
+        },
+      },
+      Targets: [Match.objectLike({ Arn: Match.anyValue() })],
+    });
+    template.hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({ Action: "ecs:UpdateService" }),
+        ]),
+      },
+    });
+  });
+
+  test("a WAF blocks listed, rate-limited and managed-rule traffic at the ALB", () => {
+    const { template } = synthEngine({
+      engine: {
+        waf: { blockedCidrs: ["203.0.113.0/24"], rateLimitPer5Min: 500 },
+      },
+    });
+    const [webAcl] = Object.values(
+      template.findResources("AWS::WAFv2::WebACL"),
+    );
+    expect(webAcl.Properties).toMatchObject({
+      Scope: "REGIONAL",
+      DefaultAction: { Allow: {} },
+    });
+    expect(
+      webAcl.Properties.Rules.map(
+        (rule: { Name: string; Priority: number }) => [
+          rule.Priority,
+          rule.Name,
+        ],
+      ),
+    ).toEqual([
+      [0, "BlockedIps"],
+      [1, "RateLimit"],
+      [2, "AWSManagedRulesAmazonIpReputationList"],
+      [3, "AWSManagedRulesCommonRuleSet"],
+      [4, "AWSManagedRulesKnownBadInputsRuleSet"],
+    ]);
+    expect(webAcl.Properties.Rules[1].Statement).toEqual({
+      RateBasedStatement: { Limit: 500, AggregateKeyType: "IP" },
+    });
+
+    const [alb] = Object.keys(
+      template.findResources("AWS::ElasticLoadBalancingV2::LoadBalancer"),
+    );
+    template.hasResourceProperties("AWS::WAFv2::WebACLAssociation", {
+      ResourceArn: { Ref: alb },
+    });
+    template.hasResourceProperties("AWS::Logs::LogGroup", {
+      LogGroupName: "aws-waf-logs-EngineStack-engine",
+    });
+    template.hasResourceProperties("AWS::WAFv2::LoggingConfiguration", {
+      RedactedFields: [{ SingleHeader: { Name: "authorization" } }],
+    });
+  });
+
+  test("passes the runtime config through as environment and secrets", () => {
+    const { template } = synthEngine({
+      engine: {
+        runtime: {
+          rpcPort: 9000,
+          corsAllowedOrigins: ["https://app.example.com"],
+          chain: "testnet",
+          environment: { LOG_LEVEL: "debug" },
+          secrets: {
+            API_TOKEN: { secretName: "fractal/api", field: "token" },
+            LICENSE_KEY: { ssmParameter: "/fractal/license" },
+          },
+        },
+      },
+    });
+    expect(engineEnvironment(template)).toMatchObject({
+      RPC_SERVER_HOST: "0.0.0.0",
+      RPC_SERVER_PORT: "9000",
+      CORS_ALLOWED_ORIGINS: "https://app.example.com",
+      CHAIN: "testnet",
+      LOG_LEVEL: "debug",
+    });
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      ContainerDefinitions: [
+        Match.objectLike({
+          Name: "Engine",
+          PortMappings: Match.arrayWith([
+            Match.objectLike({ ContainerPort: 9000 }),
+          ]),
+          Secrets: Match.arrayWith([
+            {
+              Name: "API_TOKEN",
+              ValueFrom:
+                "arn:aws:secretsmanager:us-east-1:123456789012:secret:fractal/api:token::",
+            },
+            Match.objectLike({ Name: "LICENSE_KEY" }),
+          ]),
+        }),
+      ],
+    });
+
+    expect(() =>
+      synthEngine({
+        engine: { runtime: { environment: { DATABASE_HOST: "elsewhere" } } },
+      }),
+    ).toThrow(/may not set DATABASE_HOST/);
+  });
+
+  test("blue/green shifts traffic through CodeDeploy and rolls back on alarms", () => {
+    const { template } = synthEngine({
+      engine: { blueGreen: { trafficShift: "canary", percent: 20 } },
+    });
+    template.hasResourceProperties("AWS::ECS::Service", {
+      DeploymentController: { Type: "CODE_DEPLOY" },
+    });
+    template.resourceCountIs("AWS::ElasticLoadBalancingV2::TargetGroup", 2);
+    template.hasResourceProperties("AWS::ElasticLoadBalancingV2::Listener", {
+      Port: 9000,
+    });
+    template.hasResourceProperties("AWS::CodeDeploy::DeploymentConfig", {
+      TrafficRoutingConfig: {
+        Type: "TimeBasedCanary",
+        TimeBasedCanary: { CanaryPercentage: 20, CanaryInterval: 5 },
+      },
+    });
+    template.hasResourceProperties("AWS::CodeDeploy::DeploymentGroup", {
+      AlarmConfiguration: {
+        Enabled: true,
+        Alarms: [{ Name: Match.anyValue() }, { Name: Match.anyValue() }],
+      },
+      AutoRollbackConfiguration: {
+        Enabled: true,
+        Events: Match.arrayWith(["DEPLOYMENT_STOP_ON_ALARM"]),
+      },
+    });
+    template.resourceCountIs("Custom::EcsBlueGreenDeployment", 1);
+
+    // Rolling updates roll back on the same alarms
+    const rolling = synthEngine().template;
+    rolling.hasResourceProperties("AWS::ECS::Service", {
+      DeploymentConfiguration: Match.objectLike({
+        Alarms: {
+          AlarmNames: [
+            "EngineStack-deployment-5xx",
+            "EngineStack-deployment-unhealthy-hosts",
+          ],
+          Enable: true,
+          Rollback: true,
+        },
+      }),
+    });
+  });
+
+  test("migrates with the Engine's image and secrets before the service updates", () => {
+    const { template } = synthEngine({
+      engine: { migration: { command: ["fractal-engine", "migrate"] } },
+    });
+    template.hasResourceProperties("AWS::ECS::TaskDefinition", {
+      ContainerDefinitions: [
+        Match.objectLike({
+          Name: "Migrate",
+          Image: "ghcr.io/dogecoinfoundation/fractal-engine:v0.0.1",
+          Command: ["fractal-engine", "migrate"],
+          Secrets: Match.arrayWith([
+            Match.objectLike({ Name: "DATABASE_PASSWORD" }),
+          ]),
+        }),
+      ],
+    });
+
+    const [migration] = Object.keys(
+      template.findResources("Custom::EcsRunTask"),
+    );
+    const [service] = Object.values(
+      template.findResources("AWS::ECS::Service"),
+    );
+    expect(service.DependsOn).toEqual(expect.arrayContaining([migration]));
+  });
+
+  test("privatelink keeps the ALB internal behind an NLB endpoint service", () => {
+    const consumer = "arn:aws:iam::210987654321:root";
+    const { template } = synthEngine({
+      engine: {
+        exposure: "privatelink",
+        endpointService: {
+          allowedPrincipals: [new iam.ArnPrincipal(consumer)],
+        },
+      },
+    });
+    template.hasResourceProperties(
+      "AWS::ElasticLoadBalancingV2::LoadBalancer",
+      { Type: "application", Scheme: "internal" },
+    );
+    template.hasResourceProperties(
+      "AWS::ElasticLoadBalancingV2::LoadBalancer",
+      { Type: "network", Scheme: "internal" },
+    );
+    template.hasResourceProperties("AWS::ElasticLoadBalancingV2::TargetGroup", {
+      TargetType: "alb",
+      Port: 80,
+      Protocol: "TCP",
+      HealthCheckPath: "/health",
+    });
+    template.hasResourceProperties("AWS::EC2::VPCEndpointService", {
+      AcceptanceRequired: true,
+    });
+    template.hasResourceProperties("AWS::EC2::VPCEndpointServicePermissions", {
+      AllowedPrincipals: [consumer],
+    });
+    template.hasOutput("EngineEndpointServiceName", Match.anyValue());
+    template.hasOutput("InternalAlbDnsName", Match.anyValue());
+
+    expect(() =>
+      synthEngine({
+        engine: {
+          endpointService: {
+            allowedPrincipals: [new iam.ArnPrincipal(consumer)],
+          },
+        },
+      }),
+    ).toThrow(/endpointService requires exposure "privatelink"/);
+  });
+
+  test("API Gateway gives each client a key and usage plan over a VPC link", () => {
+    const { template } = synthEngine({
+      engine: {
+        exposure: "internal",
+        apiGateway: {
+          clients: [
+            { name: "Explorer" },
+            {
+              name: "Wallet",
+              rateLimit: 50,
+              burstLimit: 100,
+              quota: { limit: 100000, period: apigw.Period.MONTH },
+            },
+          ],
+        },
+      },
+    });
+    const [nlb] = Object.keys(
+      template.findResources("AWS::ElasticLoadBalancingV2::LoadBalancer", {
+        Properties: { Type: "network" },
+      }),
+    );
+    template.hasResourceProperties("AWS::ApiGateway::VpcLink", {
+      TargetArns: [{ Ref: nlb }],
+    });
+    template.allResourcesProperties("AWS::ApiGateway::Method", {
+      HttpMethod: "ANY",
+      ApiKeyRequired: true,
+      Integration: Match.objectLike({
+        Type: "HTTP_PROXY",
+        ConnectionType: "VPC_LINK",
+      }),
+    });
+    template.resourceCountIs("AWS::ApiGateway::ApiKey", 2);
+    template.hasResourceProperties("AWS::ApiGateway::UsagePlan", {
+      UsagePlanName: "EngineStack-Wallet",
+      Throttle: { RateLimit: 50, BurstLimit: 100 },
+      Quota: { Limit: 100000, Period: "MONTH" },
+    });
+    template.hasResourceProperties("AWS::ApiGateway::UsagePlan", {
+      UsagePlanName: "EngineStack-Explorer",
+      Throttle: { RateLimit: 10, BurstLimit: 20 },
+    });
+    template.resourceCountIs("AWS::ApiGateway::UsagePlanKey", 2);
+
+    expect(() =>
+      synthEngine({ engine: { apiGateway: { clients: [{ name: "A" }] } } }),
+    ).toThrow(/apiGateway requires exposure "internal" or "privatelink"/);
+  });
+
+  test("blue/green image changes leave the service's task definition alone", () => {
+    const serviceTaskDefinition = (engineImageTag: string) => {
+      const { template } = synthEngine({
+        engine: { blueGreen: {}, engineImageTag },
+      });
+      const [service] = Object.values(
+        template.findResources("AWS::ECS::Service"),
+      );
+      template.hasResourceProperties("Custom::EcsBlueGreenDeployment", {
+        TaskDefinition: { Ref: Match.stringLikeRegexp("^FractalTaskDef") },
+      });
+      // Its family needs a revision before the service can start
+      expect(service.DependsOn).toEqual(
+        expect.arrayContaining([expect.stringMatching(/^FractalTaskDef/)]),
+      );
+      return service.Properties.TaskDefinition;
+    };
+
+    const first = serviceTaskDefinition("v1.0.0");
+    expect(first).toEqual(expect.any(String));
+    expect(serviceTaskDefinition("v1.1.0")).toEqual(first);
+  });
+
+  test("the migration is keyed on the image and runs on the service's capacity", () => {
+    const migration = { command: ["fractal-engine", "migrate"] };
+    const fargate = synthEngine({
+      engine: { migration, engineImageTag: "v1.0.0" },
+    }).template;
+    fargate.hasResourceProperties("Custom::EcsRunTask", {
+      LaunchType: "FARGATE",
+      CapacityProviderStrategy: Match.absent(),
+      RunOnUpdate: "true",
+      Trigger: "ghcr.io/dogecoinfoundation/fractal-engine:v1.0.0",
+    });
+
+    const spot = synthEngine({
+      engine: {
+        migration,
+        capacityProviderStrategies: [
+          { capacityProvider: "FARGATE_SPOT", weight: 1 },
+        ],
+      },
+    }).template;
+    spot.hasResourceProperties("Custom::EcsRunTask", {
+      LaunchType: Match.absent(),
+      CapacityProviderStrategy: [
+        { CapacityProvider: "FARGATE_SPOT", Weight: 1 },
+      ],
+    });
+  });
+});
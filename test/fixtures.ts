@@ -0,0 +1,28 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as cdk from "aws-cdk-lib";
+import { NetworkStack, NetworkStackProps } from "../lib/network-stack";
+
+// Concrete environment, so stacks can be synthesized without lookups
+export const TEST_ENV = { account: "123456789012", region: "us-east-1" };
+
+// An App with the feature flags from cdk.json, as `cdk synth` runs it
+export function testApp(context?: Record<string, unknown>): cdk.App {
+  const cdkJson = JSON.parse(
+    fs.readFileSync(path.join(__dirname, "..", "cdk.json"), "utf8"),
+  );
+  return new cdk.App({ context: { ...cdkJson.context, ...context } });
+}
+
+// An App with a NetworkStack for the stacks under test to use
+export function testNetwork(props?: Partial<NetworkStackProps>): {
+  app: cdk.App;
+  network: NetworkStack;
+} {
+  const app = testApp();
+  const network = new NetworkStack(app, "NetworkStack", {
+    env: TEST_ENV,
+    ...props,
+  });
+  return { app, network };
+}
@@ -0,0 +1,93 @@
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { DatabaseStack } from "../lib/database-stack";
+import { DogecoinStack } from "../lib/dogecoin-stack";
+import { EngineStack } from "../lib/engine-stack";
+import { MonitoringStack } from "../lib/monitoring-stack";
+import { TEST_ENV, testNetwork } from "./fixtures";
+
+// A MonitoringStack over the network, database, Dogecoin and Engine stacks,
+// wired as bin/deploy.ts does
+function synth(): Template {
+  const { app, network } = testNetwork();
+  const db = new DatabaseStack(app, "DatabaseStack", {
+    vpc: network.vpc,
+    rdsSecurityGroup: network.rdsSg,
+    env: TEST_ENV,
+  });
+  const doge = new DogecoinStack(app, "DogecoinStack", {
+    vpc: network.vpc,
+    dogeSecurityGroup: network.dogeSg,
+    namespace: network.namespace,
+    chainProfile: network.chainProfile,
+    env: TEST_ENV,
+  });
+  const engine = new EngineStack(app, "EngineStack", {
+    vpc: network.vpc,
+    albSecurityGroup: network.albSg,
+    engineSecurityGroup: network.engineSg,
+    dbHost: db.endpointAddress,
+    dbSecret: db.engineSecret,
+    env: TEST_ENV,
+  });
+  const monitoring = new MonitoringStack(app, "MonitoringStack", {
+    engineService: engine.service,
+    loadBalancer: engine.loadBalancer,
+    targetGroup: engine.targetGroup,
+    rdsInstance: db.rdsInstance,
+    dogecoinServices: doge.services,
+    dogecoinFileSystem: doge.fileSystem,
+    dogecoinSyncLagAlarm: doge.syncLagAlarm,
+    alarmEmails: ["ops@example.com"],
+    alarmWebhookUrls: ["https://alerts.example.com/sns"],
+    env: TEST_ENV,
+  });
+  return Template.fromStack(monitoring);
+}
+
+describe("MonitoringStack", () => {
+  test("alarms on every tier and routes them and stopped tasks to SNS", () => {
+    const template = synth();
+    template.hasResourceProperties("AWS::SNS::Subscription", {
+      Protocol: "email",
+      Endpoint: "ops@example.com",
+    });
+    template.hasResourceProperties("AWS::SNS::Subscription", {
+      Protocol: "https",
+      Endpoint: "https://alerts.example.com/sns",
+    });
+
+    const alarms = Object.keys(
+      template.findResources("AWS::CloudWatch::Alarm"),
+    );
+    for (const alarm of [
+      "Alb5xxAlarm",
+      "UnhealthyHostsAlarm",
+      "RdsCpuAlarm",
+      "RdsFreeStorageAlarm",
+      "RdsConnectionsAlarm",
+      "EfsBurstCreditAlarm",
+    ]) {
+      expect(alarms).toContainEqual(expect.stringMatching(`^${alarm}`));
+    }
+    const [topic] = Object.keys(template.findResources("AWS::SNS::Topic"));
+    template.allResourcesProperties("AWS::CloudWatch::Alarm", {
+      AlarmActions: [{ Ref: topic }],
+      OKActions: [{ Ref: topic }],
+    });
+
+    template.hasResourceProperties("AWS::Events::Rule", {
+      EventPattern: Match.objectLike({
+        "detail-type": ["ECS Task State Change"],
+        detail: Match.objectLike({ lastStatus: ["STOPPED"] }),
+      }),
+      Targets: [Match.objectLike({ Arn: { Ref: topic } })],
+    });
+    // The sync-lag alarm lives in DogecoinStack and is forwarded by a rule
+    template.hasResourceProperties("AWS::Events::Rule", {
+      EventPattern: Match.objectLike({
+        "detail-type": ["CloudWatch Alarm State Change"],
+      }),
+    });
+    template.resourceCountIs("AWS::CloudWatch::Dashboard", 1);
+  });
+});
@@ -0,0 +1,162 @@
+import { Annotations, Match, Template } from "aws-cdk-lib/assertions";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import { DogecoinStack, DogecoinStackProps } from "../lib/dogecoin-stack";
+import { NetworkStack } from "../lib/network-stack";
+import { TEST_ENV, testApp, testNetwork } from "./fixtures";
+
+// A cached VPC lookup with "Tier"-tagged public, app and data subnet groups;
+// the data subnets are in dataAzs, the others in a and b
+function vpcLookupContext(dataAzs = ["a", "b"]): Record<string, unknown> {
+  const group = (
+    name: string,
+    type: string,
+    octet: number,
+    azs = ["a", "b"],
+  ) => ({
+    name,
+    type,
+    subnets: azs.map((az, i) => ({
+      subnetId: `subnet-${name}-${az}`,
+      cidr: `10.50.${octet + i}.0/24`,
+      availabilityZone: `us-east-1${az}`,
+      routeTableId: `rtb-${name}-${az}`,
+    })),
+  });
+  return {
+    "vpc-provider:account=123456789012:filter.vpc-id=vpc-0abc12345def67890:region=us-east-1:returnAsymmetricSubnets=true:subnetGroupNameTag=Tier":
+      {
+        vpcId: "vpc-0abc12345def67890",
+        vpcCidrBlock: "10.50.0.0/16",
+        ownerAccountId: "123456789012",
+        availabilityZones: [],
+        subnetGroups: [
+          group("shared-public", "Public", 10),
+          group("shared-app", "Private", 20),
+          group("shared-data", "Private", 30, dataAzs),
+        ],
+      },
+  };
+}
+
+// A NetworkStack over the looked-up VPC
+function importedNetwork(context: Record<string, unknown>): NetworkStack {
+  return new NetworkStack(testApp(context), "Network", {
+    existingVpc: {
+      vpcId: "vpc-0abc12345def67890",
+      subnetGroupNameTag: "Tier",
+      subnetGroups: {
+        public: "shared-public",
+        app: "shared-app",
+        data: "shared-data",
+      },
+      existingEndpoints: ["s3", "logs"],
+    },
+    env: TEST_ENV,
+  });
+}
+
+describe("NetworkStack", () => {
+  test("opens the chain profile's Dogecoin ports to the Engine only", () => {
+    const { app, network } = testNetwork({
+      chain: "testnet",
+      dogecoinPorts: { zmqPort: 28332 },
+    });
+    const dogeProps: DogecoinStackProps = {
+      vpc: network.vpc,
+      dogeSecurityGroup: network.dogeSg,
+      namespace: network.namespace,
+      chainProfile: network.chainProfile,
+      env: TEST_ENV,
+    };
+    const doge = new DogecoinStack(app, "DogecoinStack", dogeProps);
+    // DogecoinStack rejects ports that disagree with the profile
+    expect(
+      () =>
+        new DogecoinStack(app, "MismatchedDogecoinStack", {
+          ...dogeProps,
+          rpcPort: 22555,
+        }),
+    ).toThrow(/does not match the testnet chain profile: rpcPort=22555/);
+
+    const template = Template.fromStack(network);
+    for (const port of [44555, 44556, 28332]) {
+      template.hasResourceProperties("AWS::EC2::SecurityGroupIngress", {
+        FromPort: port,
+        ToPort: port,
+        GroupId: {
+          "Fn::GetAtt": [Match.stringLikeRegexp("^DogeSg"), "GroupId"],
+        },
+        SourceSecurityGroupId: {
+          "Fn::GetAtt": [Match.stringLikeRegexp("^EngineSg"), "GroupId"],
+        },
+      });
+    }
+    // ...and maps the same ports
+    Template.fromStack(doge).hasResourceProperties("AWS::ECS::TaskDefinition", {
+      ContainerDefinitions: Match.arrayWith([
+        Match.objectLike({
+          PortMappings: [
+            Match.objectLike({ ContainerPort: 44555 }),
+            Match.objectLike({ ContainerPort: 44556 }),
+            Match.objectLike({ ContainerPort: 28332 }),
+          ],
+        }),
+      ]),
+    });
+  });
+
+  test("imports an existing VPC's subnet groups and skips its endpoints", () => {
+    const network = importedNetwork(vpcLookupContext());
+    expect(
+      network.vpc.selectSubnets({
+        subnetType: ec2.SubnetType.PRIVATE_ISOLATED,
+      }).subnetIds,
+    ).toEqual(["subnet-shared-data-a", "subnet-shared-data-b"]);
+
+    const template = Template.fromStack(network);
+    template.resourceCountIs("AWS::EC2::VPC", 0);
+    template.resourceCountIs("AWS::EC2::Subnet", 0);
+    template.allResourcesProperties("AWS::EC2::SecurityGroup", {
+      VpcId: "vpc-0abc12345def67890",
+    });
+    const endpoints = Object.values(
+      template.findResources("AWS::EC2::VPCEndpoint"),
+    );
+    const services = endpoints.map((endpoint) =>
+      JSON.stringify(endpoint.Properties.ServiceName),
+    );
+    expect(services.some((name) => name.includes(".s3"))).toBe(false);
+    expect(services.some((name) => name.includes(".logs"))).toBe(false);
+    expect(services.some((name) => name.includes(".secretsmanager"))).toBe(
+      true,
+    );
+    for (const endpoint of endpoints) {
+      expect(endpoint.Properties.SubnetIds).toEqual([
+        "subnet-shared-app-a",
+        "subnet-shared-app-b",
+      ]);
+    }
+  });
+
+  test("imports each subnet in its own AZ and leaves out other AZs", () => {
+    // Data subnets listed out of order, one of them outside the app AZs
+    const network = importedNetwork(vpcLookupContext(["c", "b", "a"]));
+    const data = network.vpc.selectSubnets({
+      subnetType: ec2.SubnetType.PRIVATE_ISOLATED,
+    }).subnets;
+    expect(
+      data.map((subnet) => [subnet.subnetId, subnet.availabilityZone]),
+    ).toEqual([
+      ["subnet-shared-data-a", "us-east-1a"],
+      ["subnet-shared-data-b", "us-east-1b"],
+    ]);
+    Annotations.fromStack(network).hasWarning(
+      "/Network",
+      Match.stringLikeRegexp("leaves out subnet-shared-data-c"),
+    );
+
+    expect(() => importedNetwork(vpcLookupContext(["a", "a"]))).toThrow(
+      /subnet group "shared-data" needs the same number of subnets in each app AZ, but has 2 in us-east-1a, 0 in us-east-1b/,
+    );
+  });
+});
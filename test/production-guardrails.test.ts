@@ -0,0 +1,70 @@
+import * as cdk from "aws-cdk-lib";
+import { Annotations, Match } from "aws-cdk-lib/assertions";
+import * as logs from "aws-cdk-lib/aws-logs";
+import {
+  ProductionGuardrails,
+  ProductionGuardrailsProps,
+  suppressGuardrail,
+} from "../lib/production-guardrails";
+
+// One stack with a retained and a destroyed log group
+function synth(
+  props?: ProductionGuardrailsProps,
+  configure?: (destroyed: logs.LogGroup) => void,
+): Annotations {
+  const app = new cdk.App();
+  const stack = new cdk.Stack(app, "Prod");
+  new logs.LogGroup(stack, "Kept", {
+    removalPolicy: cdk.RemovalPolicy.RETAIN,
+  });
+  const destroyed = new logs.LogGroup(stack, "Destroyed", {
+    removalPolicy: cdk.RemovalPolicy.DESTROY,
+  });
+  configure?.(destroyed);
+  cdk.Aspects.of(app).add(new ProductionGuardrails(props));
+  return Annotations.fromStack(stack);
+}
+
+describe("ProductionGuardrails", () => {
+  test("reports each violation as an error on its resource", () => {
+    const annotations = synth();
+
+    const errors = annotations.findError(
+      "*",
+      Match.stringLikeRegexp("log-group-removal-policy"),
+    );
+    expect(errors.map((e) => e.id)).toEqual(["/Prod/Destroyed/Resource"]);
+  });
+
+  test("accepts suppressions by path or in code, with their reason", () => {
+    const byPath = synth({
+      suppressions: [
+        {
+          rule: "log-group-removal-policy",
+          path: "Prod/Destroyed",
+          reason: "scratch logs",
+        },
+      ],
+    });
+    byPath.hasNoError("*", Match.anyValue());
+    byPath.hasInfo(
+      "/Prod/Destroyed/Resource",
+      "[log-group-removal-policy] suppressed: scratch logs",
+    );
+
+    const inCode = synth(undefined, (destroyed) =>
+      suppressGuardrail(destroyed, "log-group-removal-policy", "scratch logs"),
+    );
+    inCode.hasNoError("*", Match.anyValue());
+  });
+
+  test("rejects suppressions without a reason", () => {
+    expect(() =>
+      synth({
+        suppressions: [
+          { rule: "log-group-removal-policy", path: "Prod", reason: " " },
+        ],
+      }),
+    ).toThrow(/requires a reason/);
+  });
+});
@@ -0,0 +1,141 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import {
+  RpcConfig,
+  collectSyncStatus,
+  parseSyncStatus,
+  toEmf,
+} from "../lib/sync-monitor";
+
+// Minimal dogecoind JSON-RPC stub
+function startStubRpc(
+  results: Record<string, unknown>,
+): Promise<{ server: http.Server; config: RpcConfig }> {
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      if (req.headers.authorization !== `Basic ${btoa("user:pass")}`) {
+        res.writeHead(401).end();
+        return;
+      }
+      const { id, method } = JSON.parse(body);
+      const known = method in results;
+      res.writeHead(known ? 200 : 500, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          id,
+          result: known ? results[method] : null,
+          error: known ? null : { code: -32601, message: "Method not found" },
+        }),
+      );
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        server,
+        config: { host: "127.0.0.1", port, user: "user", password: "pass" },
+      });
+    });
+  });
+}
+
+// fetch keeps connections alive, so drop them or jest waits on the server
+function stopStubRpc(server: http.Server) {
+  server.closeAllConnections();
+  server.close();
+}
+
+test("collects sync status from a syncing node", async () => {
+  const { server, config } = await startStubRpc({
+    getblockchaininfo: {
+      chain: "test",
+      blocks: 1000,
+      headers: 1500,
+      verificationprogress: 0.42,
+    },
+    getconnectioncount: 8,
+  });
+
+  try {
+    const status = await collectSyncStatus(config);
+    expect(status).toEqual({
+      chain: "test",
+      blocks: 1000,
+      headers: 1500,
+      headerLag: 500,
+      peers: 8,
+      verificationProgress: 0.42,
+      initialBlockDownload: true,
+    });
+  } finally {
+    stopStubRpc(server);
+  }
+});
+
+test("surfaces RPC errors", async () => {
+  const { server, config } = await startStubRpc({ getconnectioncount: 3 });
+
+  try {
+    await expect(collectSyncStatus(config)).rejects.toThrow(
+      "getblockchaininfo: Method not found",
+    );
+  } finally {
+    stopStubRpc(server);
+  }
+});
+
+test("rejects incomplete getblockchaininfo results", () => {
+  expect(() => parseSyncStatus({ blocks: 1 }, 2)).toThrow(
+    "getblockchaininfo.headers is missing or not a number",
+  );
+});
+
+test("renders EMF with only RpcReachable when the node is down", () => {
+  const line = JSON.parse(toEmf("Fractal/Dogecoin", "mainnet", undefined, 1));
+
+  expect(line.RpcReachable).toBe(0);
+  expect(line.BlockHeight).toBeUndefined();
+  expect(line._aws.CloudWatchMetrics[0].Metrics).toEqual([
+    { Name: "RpcReachable", Unit: "None" },
+  ]);
+});
+
+test("renders EMF metrics for a synced node", () => {
+  const status = parseSyncStatus(
+    {
+      chain: "main",
+      blocks: 5000000,
+      headers: 5000000,
+      verificationprogress: 0.99999,
+      initialblockdownload: false,
+    },
+    12,
+  );
+  const line = JSON.parse(toEmf("Fractal/Dogecoin", "mainnet", status, 1));
+
+  expect(line).toMatchObject({
+    Chain: "mainnet",
+    RpcReachable: 1,
+    BlockHeight: 5000000,
+    HeaderLag: 0,
+    PeerCount: 12,
+    InitialBlockDownload: 0,
+  });
+  expect(line._aws.CloudWatchMetrics[0].Dimensions).toEqual([["Chain"]]);
+});
+
+test("adds a per-node dimension set when the node is named", () => {
+  const line = JSON.parse(
+    toEmf("Fractal/Dogecoin", "mainnet", undefined, 1, "dogecoin-1"),
+  );
+
+  expect(line.Node).toBe("dogecoin-1");
+  expect(line._aws.CloudWatchMetrics[0].Dimensions).toEqual([
+    ["Chain"],
+    ["Chain", "Node"],
+  ]);
+});